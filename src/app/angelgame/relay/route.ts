@@ -0,0 +1,152 @@
+// Message relay for Angel vs Devil games between devices. Clients listen to
+// a room with a server-sent event stream (GET) and post messages to it
+// (POST); every message posted to a room goes out to all of its listeners.
+// Route handlers can't take WebSocket upgrades, and a WebSocket relay would
+// need a custom server in place of next start, hence events plus POST.
+//
+// Rooms live in this server process's memory, so this only works with a
+// single long-running server (next start / next dev), not serverless.
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const MAX_ROOM_NAME = 64;
+const MAX_PEER_ID = 64;
+const MAX_ROOMS = 1000;
+const MAX_PEERS = 2; // one angel, one devil
+const KEEPALIVE_MS = 25_000;
+
+type Listener = ReadableStreamDefaultController<Uint8Array>;
+
+// Listeners of each room by peer id
+const rooms = new Map<string, Map<string, Listener>>();
+const encoder = new TextEncoder();
+
+const param = (request: Request, name: string, maxLength: number) => {
+  const value = new URL(request.url).searchParams.get(name) ?? "";
+  return value.length > 0 && value.length <= maxLength ? value : null;
+};
+
+const roomName = (request: Request) => param(request, "room", MAX_ROOM_NAME);
+
+// Only while the peer's listener is still this one; a reconnect replaces it
+const leave = (room: string, peer: string, listener: Listener) => {
+  const listeners = rooms.get(room);
+  if (listeners?.get(peer) !== listener) return;
+  listeners.delete(peer);
+  if (listeners.size === 0) rooms.delete(room);
+};
+
+// The body as text, or null once it is over the size limit. The declared
+// length is checked first, and the stream is read no further than the limit.
+const readMessage = async (request: Request): Promise<string | null> => {
+  if (Number(request.headers.get("content-length")) > MAX_MESSAGE_BYTES) return null;
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_MESSAGE_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(body);
+};
+
+export async function GET(request: Request) {
+  const room = roomName(request);
+  if (!room) return new Response("missing or invalid room", { status: 400 });
+  const peer = param(request, "peer", MAX_PEER_ID);
+  if (!peer) return new Response("missing or invalid peer", { status: 400 });
+  // A peer coming back after a dropped connection takes over its own slot,
+  // even if the server hasn't noticed the old stream is gone yet
+  const present = rooms.get(room);
+  if (present && !present.has(peer) && present.size >= MAX_PEERS) {
+    return new Response("room is full", { status: 409 });
+  }
+  if (!rooms.has(room) && rooms.size >= MAX_ROOMS) {
+    return new Response("too many rooms", { status: 503 });
+  }
+
+  let listener: Listener;
+  let keepalive: ReturnType<typeof setInterval>;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      listener = controller;
+      const listeners = rooms.get(room) ?? new Map<string, Listener>();
+      const previous = listeners.get(peer);
+      try {
+        previous?.close();
+      } catch {
+        // Already closed
+      }
+      listeners.set(peer, controller);
+      rooms.set(room, listeners);
+      controller.enqueue(encoder.encode(": connected\n\n"));
+      // The keepalive also finds streams that have gone away unnoticed
+      keepalive = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(": keepalive\n\n"));
+        } catch {
+          clearInterval(keepalive);
+          leave(room, peer, controller);
+        }
+      }, KEEPALIVE_MS);
+    },
+    cancel() {
+      clearInterval(keepalive);
+      leave(room, peer, listener);
+    },
+  });
+  request.signal.addEventListener("abort", () => {
+    clearInterval(keepalive);
+    leave(room, peer, listener);
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export async function POST(request: Request) {
+  const room = roomName(request);
+  if (!room) return new Response("missing or invalid room", { status: 400 });
+
+  const body = await readMessage(request);
+  if (body === null) {
+    return new Response("message too large", { status: 413 });
+  }
+  let message: unknown;
+  try {
+    message = JSON.parse(body);
+  } catch {
+    return new Response("message is not JSON", { status: 400 });
+  }
+
+  // Re-serialized so each event is a single line
+  const event = encoder.encode(`data: ${JSON.stringify(message)}\n\n`);
+  for (const [peer, listener] of rooms.get(room) ?? []) {
+    try {
+      listener.enqueue(event);
+    } catch {
+      leave(room, peer, listener);
+    }
+  }
+  return new Response(null, { status: 204 });
+}
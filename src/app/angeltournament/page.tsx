@@ -0,0 +1,5 @@
+import AngelTournament from "@/widgets/AngelTournament";
+
+export default function AngelTournamentPage() {
+  return <AngelTournament />;
+}
@@ -1,79 +1,202 @@
 "use client"
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import clsx from "clsx";
+import {
+  CELL_WIDTH,
+  Coord,
+  DEFAULT_METRIC,
+  Direction,
+  GridType,
+  HEX_SIZE,
+  MAX_LEAP,
+  METRIC_DESCRIPTIONS,
+  MoveMetric,
+  TRIANGLE_SIZE,
+  cellCenter,
+  coordKey,
+  getCellsInRect,
+  isUpTriangle,
+  keyboardStep,
+  metricName,
+  sameCoord,
+  triangleCorners,
+} from "./angel/geometry";
+import {
+  DEVIL_DEFAULT_DISTANCE,
+  DEVIL_STRATEGY_DESCRIPTIONS,
+  DevilStrategy,
+  chooseDevilMove,
+} from "./angel/devilAI";
+import { AIStrategy, AI_STRATEGY_DESCRIPTIONS, chooseAngelMove } from "./angel/angelAI";
+import { DEFAULT_SEARCH_OPTIONS, SearchOptions } from "./angel/search";
+import type { SearchRequest, SearchResponse } from "./angel/searchWorker";
+import {
+  ANGEL_TYPE_DESCRIPTIONS,
+  AngelType,
+  AngelWinRule,
+  DEFAULT_SETUP,
+  DEFAULT_TURN_RULES,
+  EAT_SHAPE_DESCRIPTIONS,
+  EatShape,
+  GameResult,
+  GameSettings,
+  GameSetup,
+  GameState,
+  MAX_TURN_ACTIONS,
+  Move,
+  Turn,
+  TurnRules,
+  WIN_RULE_DEFAULT_VALUE,
+  WIN_RULE_DESCRIPTIONS,
+  angelDestinations,
+  applyMove,
+  completedAngelTurns,
+  createGame,
+  describeResult,
+  gameResult,
+  gameSetup,
+  isAngelGoal,
+  isDefaultSetup,
+  isLegalMove,
+  makeWinRule,
+  winRuleValue,
+} from "./angel/engine";
+import { groupMovesIntoRounds, moveNotation, parseMoveNotation } from "./angel/history";
+import { LoadedGame, SavedGame, decodeGame, encodeGame, loadGame, saveGame } from "./angel/serialize";
+import CanvasBoard from "./angel/CanvasBoard";
+import { REPLAY_SPEED, animateMove, animationDuration } from "./angel/replay";
+import StatsPanel from "./angel/StatsPanel";
+import { Controller, GameRecord, addRecord, loadRecords, recordGame, saveRecords } from "./angel/stats";
+import { analyzePosition } from "./angel/analysis";
+import { PUZZLES, Puzzle, describeGoal, puzzlePlayer, puzzleStatus } from "./angel/puzzles";
+import {
+  Annotations,
+  EMPTY_ANNOTATIONS,
+  MAX_LAYERS,
+  MAX_LAYER_NAME,
+  MAX_NOTE_LENGTH,
+  addLayer,
+  highlightColor,
+  paintSquare,
+  removeLayer,
+  setNote,
+  updateLayer,
+} from "./angel/annotations";
+import {
+  DEFAULT_IMAGE_OPTIONS,
+  IMAGE_AREA_DESCRIPTIONS,
+  ImageArea,
+  ImageOptions,
+  LegendEntry,
+  boardImagePng,
+  boardImageSvg,
+  inlineImage,
+} from "./angel/boardImage";
+import { describeCell, describeMove, describeTurn } from "./angel/accessibility";
+import { NetMessage, TRANSPORT_DESCRIPTIONS, Transport, TransportKind, acceptsSync, openTransport } from "./angel/multiplayer";
+import { Preferences, Renderer, loadLastGame, loadPreferences, saveLastGame, savePreferences } from "./angel/preferences";
+import {
+  RUNNER_MIN_POWER,
+  RUNNER_STRATEGIES,
+  RunnerTrail,
+  blockedEdgesAt,
+  extendRunnerTrail,
+  matheBookkeeping,
+  runnerSupported,
+  runnerView,
+} from "./angel/runner";
 // Conway's Angel Problem Interactive Widget
-// The Angel moves up to 'power' squares away (Manhattan distance)
-// The Devil eats one square per turn
+// The Angel moves up to 'power' squares away (Chebyshev distance, i.e. king's
+// moves, unless another move shape is chosen)
+// The Devil eats one square per turn, unless handicaps change the turns
 // Angel wins by surviving indefinitely, Devil wins by trapping the Angel
 
-type GridType = "square" | "hex";
-type AngelType = "regular" | "nice" | "very-nice" | "fool" | "out-and-out-fool";
-type Tool = "select" | "pan" | "highlight";
-type AIStrategy = "random" | "greedy";
-type Turn = "angel" | "devil";
+type Tool = "select" | "pan" | "highlight" | "note";
 
-interface Coord {
-  q: number; // column for square grid, axial q for hex
-  r: number; // row for square grid, axial r for hex
-}
-
-// Helper functions for coordinate systems
-const coordKey = (coord: Coord) => `${coord.q},${coord.r}`;
-const parseCoordKey = (key: string): Coord => {
-  const [q, r] = key.split(",").map(Number);
-  return { q, r };
+const TOOL_LABELS: Record<Tool, string> = {
+  select: "Select",
+  pan: "Pan/Zoom",
+  highlight: "Highlight",
+  note: "Note",
 };
 
-// Square grid: Chebyshev distance (king's move - includes diagonals)
-const squareDistance = (a: Coord, b: Coord): number => {
-  return Math.max(Math.abs(a.q - b.q), Math.abs(a.r - b.r));
+// Keyboard play on the focused board
+const TOOL_KEYS: Record<string, Tool> = { s: "select", p: "pan", h: "highlight", n: "note" };
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+};
+const COMPASS: Record<Direction, string> = { up: "north", down: "south", left: "west", right: "east" };
+const KEYBOARD_HELP =
+  "Arrow keys move the cursor and Enter or Space plays, paints or notes the cell under it. " +
+  "A jumps to the angel, Shift+arrows pan, + and - zoom, S, P, H and N pick a tool, " +
+  "and Ctrl+Z and Ctrl+Shift+Z undo and redo.";
+type SetupPiece = "eaten" | "angel";
+type NetMode = "hotseat" | TransportKind;
+
+const MAX_DEVIL_DISTANCE = 100;
+
+const DEFAULT_SETTINGS: GameSettings = {
+  gridType: "square",
+  angelPower: 1,
+  angelType: "regular",
+  winRule: { type: "none" },
+  metric: DEFAULT_METRIC,
+  turnRules: DEFAULT_TURN_RULES,
 };
 
-// Hex grid: Cube coordinate distance
-const hexDistance = (a: Coord, b: Coord): number => {
-  // Convert axial to cube coordinates
-  const aq = a.q;
-  const ar = a.r;
-  const as = -aq - ar;
-  const bq = b.q;
-  const br = b.r;
-  const bs = -bq - br;
-  return (Math.abs(aq - bq) + Math.abs(ar - br) + Math.abs(as - bs)) / 2;
+// Used until the stored preferences load, and when there are none
+const DEFAULT_PREFERENCES: Preferences = {
+  darkMode: false,
+  showCoordinates: false,
+  showAnalysis: false,
+  renderer: "svg",
+  aiEnabled: false,
+  aiStrategy: "random",
+  devilAiEnabled: false,
+  devilStrategy: "min-moves",
+  devilDistance: DEVIL_DEFAULT_DISTANCE["min-moves"],
+  settings: DEFAULT_SETTINGS,
+  rememberGame: true,
 };
 
-// Euclidean distance from origin
-const euclideanDistance = (coord: Coord): number => {
-  return Math.sqrt(coord.q * coord.q + coord.r * coord.r);
+const TURN_RULE_LABELS: Record<Exclude<keyof TurnRules, "eatShape">, string> = {
+  angelMoves: "Angel Moves per Turn",
+  devilEats: "Devil Eats per Turn",
+  devilEvery: "Devil Plays Every N Angel Turns",
 };
 
-// Get all cells within power distance
-const getCellsInRange = (
-  center: Coord,
-  power: number,
-  gridType: GridType,
-  gridSize: number
-): Coord[] => {
-  const cells: Coord[] = [];
-  const distFn = gridType === "hex" ? hexDistance : squareDistance;
-  const halfSize = Math.floor(gridSize / 2);
-
-  for (let q = -halfSize; q <= halfSize; q++) {
-    for (let r = -halfSize; r <= halfSize; r++) {
-      const coord = { q, r };
-      if (distFn(center, coord) <= power && distFn(center, coord) > 0) {
-        cells.push(coord);
-      }
-    }
+// Move shape choices; a knight is just the (1,2) leaper
+type MetricChoice = MoveMetric["type"] | "knight";
+
+const metricChoice = (metric: MoveMetric): MetricChoice =>
+  metric.type === "leaper" && metricName(metric) === "Knight" ? "knight" : metric.type;
+
+const metricForChoice = (choice: MetricChoice): MoveMetric => {
+  switch (choice) {
+    case "knight":
+      return { type: "leaper", a: 1, b: 2 };
+    case "leaper":
+      return { type: "leaper", a: 1, b: 3 };
+    default:
+      return { type: choice };
   }
-  return cells;
 };
 
-// Hex to pixel conversion
-const hexToPixel = (q: number, r: number, size: number): { x: number; y: number } => {
-  const x = size * (3 / 2 * q);
-  const y = size * (Math.sqrt(3) / 2 * q + Math.sqrt(3) * r);
-  return { x, y };
-};
+// Keyboard zoom factor and pan step (a fraction of the view)
+const KEY_ZOOM = 1.25;
+const KEY_PAN = 0.2;
+
+// Zoom limits, as the number of cells visible across the board
+const DEFAULT_VIEW_SIZE = 21; // Show 21x21 squares by default
+const MIN_VIEW_SIZE = 5; // Can zoom in to show 5x5 squares
+// Can zoom out to show max 60x60 squares with SVG; canvas scales further
+const MAX_VIEW_SIZE: Record<Renderer, number> = { svg: 60, canvas: 400 };
+
+const clampViewSize = (size: number, renderer: Renderer) =>
+  Math.max(MIN_VIEW_SIZE, Math.min(MAX_VIEW_SIZE[renderer], size));
 
 // Generate hexagon path
 const hexagonPath = (size: number): string => {
@@ -88,51 +211,212 @@ const hexagonPath = (size: number): string => {
   return points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p[0]},${p[1]}`).join(' ') + ' Z';
 };
 
-const ANGEL_TYPE_DESCRIPTIONS: Record<AngelType, string> = {
-  "regular": "Standard angel: can move to any square within power distance.",
-  "nice": "Never returns to a square it has already visited.",
-  "very-nice": "Never visits squares that were reachable on previous turns.",
-  "fool": "Always increases its y-coordinate (moves upward).",
-  "out-and-out-fool": "Always increases distance from the origin.",
+// Generate triangle paths, pointing up and down
+const trianglePaths = (size: number): { up: string; down: string } => {
+  const path = (coord: Coord) =>
+    triangleCorners(coord, size).map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ') + ' Z';
+  return { up: path({ q: 0, r: 0 }), down: path({ q: 1, r: 0 }) };
+};
+
+const IMAGE_OPTION_LABELS: Record<Exclude<keyof ImageOptions, "area">, string> = {
+  legend: "Legend",
+  coordinates: "Coordinates",
+  moveNumbers: "Move Numbers",
+  angelPath: "Angel Path",
+  notes: "Notes",
 };
 
-export default function AngelDevil() {
-  // Grid settings
-  const [gridType, setGridType] = useState<GridType>("square");
-  const [gridSize] = useState(95); // Full grid is 95x95
-  const [cellSize, setCellSize] = useState(28);
-
-  // Zoom calculation constants
-  const DEFAULT_VIEW_SIZE = 21; // Show 21x21 squares by default
-  const MIN_VIEW_SIZE = 60; // Can zoom out to show max 60x60 squares
-  const DEFAULT_ZOOM = gridSize / DEFAULT_VIEW_SIZE; // ~4.52 for 95/21
-  const MIN_ZOOM = gridSize / MIN_VIEW_SIZE; // ~1.58 for 95/60
-
-  // Game state
-  const [angelPos, setAngelPos] = useState<Coord>({ q: 0, r: 0 });
-  const [angelPower, setAngelPower] = useState(1);
-  const [angelType, setAngelType] = useState<AngelType>("regular");
-  const [eatenSquares, setEatenSquares] = useState<Set<string>>(new Set());
-  const [visitedSquares, setVisitedSquares] = useState<Set<string>>(new Set([coordKey({ q: 0, r: 0 })]));
-  const [reachableHistory, setReachableHistory] = useState<Set<string>[]>([]);
-  const [highlightedSquares, setHighlightedSquares] = useState<Set<string>>(new Set());
-  const [currentTurn, setCurrentTurn] = useState<Turn>("angel");
-  const [gameOver, setGameOver] = useState(false);
-  const [winner, setWinner] = useState<"angel" | "devil" | null>(null);
+const saveLoadedGame = (loaded: LoadedGame): SavedGame =>
+  saveGame(loaded.moves, loaded.positions, loaded.annotations, loaded.cursor);
+
+// Save a file through a temporary download link
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const prefersReducedMotion = () => window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+// Text fields and pickers keep their own keys, native undo included
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT");
+
+// Parts of the page an embedding can leave out
+export type AngelPanel = "header" | "settings" | "legend" | "tools" | "status" | "moves" | "results" | "statistics";
+
+export interface AngelDevilProps {
+  // Uncontrolled: the game the board opens with, else a new game with these
+  // rules from this position. Later changes to these props are ignored.
+  initialGame?: SavedGame;
+  initialSettings?: GameSettings;
+  initialSetup?: GameSetup;
+  // Controlled: the board shows this game whenever it changes (by value)
+  // and reports its own changes through onStateChange; pass the reported
+  // game back to keep the two in step
+  game?: SavedGame;
+  lockedSettings?: boolean; // the rules, puzzles, setup and loading other games are off limits
+  readOnly?: boolean; // no moves or new games; the history can still be stepped and replayed
+  hiddenPanels?: readonly AngelPanel[];
+  // Keep preferences, the game in progress and statistics in local storage,
+  // and open games shared through the URL, as the standalone page does. Off
+  // by default for controlled boards (game or onStateChange), which would
+  // otherwise share storage with every other board on the site.
+  persist?: boolean;
+  className?: string; // for the outer wrapper
+  onMove?: (move: Move, state: GameState) => void; // any move, the computer's and the other player's too
+  onGameOver?: (result: GameResult, state: GameState) => void;
+  onStateChange?: (game: SavedGame) => void;
+  onError?: (error: string) => void; // a game in the props could not be loaded; a new game is shown instead
+}
+
+export default function AngelDevil({
+  initialGame,
+  initialSettings,
+  initialSetup,
+  game,
+  lockedSettings = false,
+  readOnly = false,
+  hiddenPanels = [],
+  persist: persistProp,
+  className = "min-h-screen",
+  onMove,
+  onGameOver,
+  onStateChange,
+  onError,
+}: AngelDevilProps) {
+  const persist = persistProp ?? (game === undefined && onStateChange === undefined);
+
+  // The game the board opens with and whether it came from the props; the
+  // controlled game and the opening one as JSON; and why the game in the
+  // props didn't load, if it didn't
+  const [opening] = useState<{
+    loaded: LoadedGame;
+    fromProps: boolean;
+    gameJson: string | null;
+    boardJson: string;
+    error: string | null;
+  }>(() => {
+    const saved = game ?? initialGame;
+    let loaded: LoadedGame | null = null;
+    let error: string | null = null;
+    if (saved) {
+      try {
+        loaded = loadGame(saved);
+      } catch (e: unknown) {
+        error = `Could not load the game: ${e instanceof Error ? e.message : String(e)}`;
+      }
+    }
+    if (!loaded) {
+      const start = createGame(initialSettings ?? DEFAULT_SETTINGS, initialSetup ?? DEFAULT_SETUP);
+      loaded = { moves: [], positions: [start], cursor: 0, annotations: EMPTY_ANNOTATIONS };
+    }
+    return {
+      loaded,
+      fromProps: saved !== undefined || initialSettings !== undefined || initialSetup !== undefined,
+      gameJson: game ? JSON.stringify(game) : null,
+      boardJson: JSON.stringify(saveLoadedGame(loaded)),
+      error,
+    };
+  });
+
+  // Game state: positions[i] is the engine state after moves[0..i-1], and
+  // the cursor selects the position being shown (and played from). The
+  // game's settings live in its states; changing them starts a new game.
+  const [positions, setPositions] = useState<GameState[]>(opening.loaded.positions);
+  const [moves, setMoves] = useState<Move[]>(opening.loaded.moves);
+  const [cursor, setCursor] = useState(opening.loaded.cursor);
+
+  // Highlight layers and cell notes, kept apart from the game: new games
+  // and undo leave them alone
+  const [annotations, setAnnotations] = useState<Annotations>(opening.loaded.annotations);
+  const [activeLayerId, setActiveLayerId] = useState(opening.loaded.annotations.layers[0].id);
+  // Cell whose note is being edited, and the text so far
+  const [noteCell, setNoteCell] = useState<Coord | null>(null);
+  const [noteDraft, setNoteDraft] = useState("");
+  // Keyboard cursor, shown once the board is used from the keyboard, and the
+  // latest screen reader announcement
+  const [keyCursor, setKeyCursor] = useState<Coord | null>(null);
+  // Replay: playing steps the cursor forward on a timer, animating the move
+  // into position `animation.index` while it is the one shown
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(REPLAY_SPEED.initial);
+  const [animation, setAnimation] = useState<{ index: number; startedAt: number } | null>(null);
+  const [animationProgress, setAnimationProgress] = useState(0);
+  const [announcement, setAnnouncement] = useState("");
+  const activeLayer = annotations.layers.find(layer => layer.id === activeLayerId) ?? annotations.layers[0];
+
+  // Finished games this session; gameId tells games apart so that a result
+  // changed by undoing and replaying the end replaces the earlier record
+  const [gameId, setGameId] = useState(0);
+  const [results, setResults] = useState<{ gameId: number; settings: GameSettings; result: GameResult }[]>([]);
+  // Finished games from every session, for the statistics; null until
+  // loaded from local storage
+  const [records, setRecords] = useState<GameRecord[] | null>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  // Setup editor: while a draft setup is open the board shows it instead of
+  // the game, and nobody plays
+  const [setupDraft, setSetupDraft] = useState<GameSetup | null>(null);
+  const [setupPiece, setSetupPiece] = useState<SetupPiece>("eaten");
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const editing = setupDraft !== null;
+  const setupPreview = useMemo(
+    () => setupDraft && createGame(positions[0].settings, setupDraft),
+    [setupDraft, positions]
+  );
+
+  const position = setupPreview ?? positions[cursor];
+  const { settings } = position;
+  const { gridType, angelPower, angelType, winRule, metric, turnRules } = settings;
+  const { angelPos, eatenSquares, visitedSquares, reachableHistory, currentTurn, actionsLeft } = position;
+  const isLatestPosition = cursor === positions.length - 1;
 
   // UI state
   const [activeTool, setActiveTool] = useState<Tool>("select");
-  const [showCoordinates, setShowCoordinates] = useState(false);
-  const [aiEnabled, setAiEnabled] = useState(false);
-  const [aiStrategy, setAiStrategy] = useState<AIStrategy>("random");
-  const [darkMode, setDarkMode] = useState(false);
+  const [showCoordinates, setShowCoordinates] = useState(DEFAULT_PREFERENCES.showCoordinates);
+  const [showAnalysis, setShowAnalysis] = useState(DEFAULT_PREFERENCES.showAnalysis);
+  const [renderer, setRenderer] = useState<Renderer>(DEFAULT_PREFERENCES.renderer);
+  const [aiEnabled, setAiEnabled] = useState(DEFAULT_PREFERENCES.aiEnabled);
+  const [aiStrategy, setAiStrategy] = useState<AIStrategy>(DEFAULT_PREFERENCES.aiStrategy);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [aiThinking, setAiThinking] = useState(false);
+  const [devilAiEnabled, setDevilAiEnabled] = useState(DEFAULT_PREFERENCES.devilAiEnabled);
+  const [devilStrategy, setDevilStrategy] = useState<DevilStrategy>(DEFAULT_PREFERENCES.devilStrategy);
+  const [devilDistance, setDevilDistance] = useState(DEFAULT_PREFERENCES.devilDistance);
+  const [darkMode, setDarkMode] = useState(DEFAULT_PREFERENCES.darkMode);
+  // Rules last picked in the settings, stored for new games on later visits.
+  // Puzzles, loaded and shared games bring their own and don't change these.
+  const [preferredSettings, setPreferredSettings] = useState(DEFAULT_PREFERENCES.settings);
+  // Stored preferences are loaded after the first render, and saved from then on
+  const [preferencesLoaded, setPreferencesLoaded] = useState(false);
+  const [rememberGame, setRememberGame] = useState(DEFAULT_PREFERENCES.rememberGame);
+  // The game left in progress on the last visit, until resumed or dismissed
+  const [lastGame, setLastGame] = useState<LoadedGame | null>(null);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
-
-  // Pan/zoom state
-  const [viewOffset, setViewOffset] = useState({ x: 0, y: 0 });
-  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [imageOptions, setImageOptions] = useState<ImageOptions>(DEFAULT_IMAGE_OPTIONS);
+
+  // Multiplayer: in hot seat mode one person plays both sides in this
+  // window; connected, this window plays netSide only
+  const [netMode, setNetMode] = useState<NetMode>("hotseat");
+  const [netRoom, setNetRoom] = useState("angel");
+  const [netSide, setNetSide] = useState<Turn>("angel");
+  const [connectedSide, setConnectedSide] = useState<Turn | null>(null);
+  const [netStatus, setNetStatus] = useState<string | null>(null);
+  const [peerId] = useState(() => Math.random().toString(36).slice(2));
+
+  // Pan/zoom state. The board is unbounded: the view is a window of
+  // viewSize x viewSize board units centered on viewCenter.
+  const [viewCenter, setViewCenter] = useState({ x: 0, y: 0 });
+  const [viewSize, setViewSize] = useState(DEFAULT_VIEW_SIZE);
+  const [followAngel, setFollowAngel] = useState(true);
   const [isPanning, setIsPanning] = useState(false);
-  const [panStart, setPanStart] = useState({ x: 0, y: 0 });
+  const [panStart, setPanStart] = useState({ x: 0, y: 0, center: { x: 0, y: 0 } });
 
   // Highlighting drag state
   const [isHighlighting, setIsHighlighting] = useState(false);
@@ -142,33 +426,76 @@ export default function AngelDevil() {
   const svgRef = useRef<SVGSVGElement>(null);
   const activePointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
   const lastPinchDistanceRef = useRef<number | null>(null);
+  const moveListRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Lookahead search worker, and the id of the search it is running (if any)
+  const searchWorkerRef = useRef<Worker | null>(null);
+  const searchIdRef = useRef(0);
+  const pendingSearchRef = useRef<number | null>(null);
+  // Open multiplayer connection; messages go to the latest handler
+  const transportRef = useRef<Transport | null>(null);
+  const netHandlerRef = useRef<(message: NetMessage) => void>(() => {});
+  const awaitingWelcomeRef = useRef(false);
+  // The last controlled game shown, and the game on the board as last
+  // reported through onStateChange or taken from the props, as JSON
+  const shownGameRef = useRef<string | null>(opening.gameJson);
+  const reportedGameRef = useRef<string | null>(opening.boardJson);
+
+  const showPanel = (panel: AngelPanel) => !hiddenPanels.includes(panel);
+  // Settings that would replace the game or its rules
+  const settingsLocked = lockedSettings || readOnly;
+  // In a room, a game under way only changes by moves: the other player
+  // refuses a new game until this one is over
+  const gameFixed = connectedSide !== null && moves.length > 0 && gameResult(positions[positions.length - 1]) === null;
+  // In a room, moves are only played on the latest position
+  const canPlayHere = connectedSide === null || isLatestPosition;
+
+  // Keep the selected move visible in the move list
+  useEffect(() => {
+    const list = moveListRef.current;
+    if (!list) return;
+    const selected = list.querySelector<HTMLElement>(`[data-move-index="${cursor - 1}"]`);
+    if (!selected) {
+      if (cursor === 0) list.scrollTop = 0;
+      return;
+    }
+    if (selected.offsetTop < list.scrollTop) {
+      list.scrollTop = selected.offsetTop;
+    } else if (selected.offsetTop + selected.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = selected.offsetTop + selected.offsetHeight - list.clientHeight;
+    }
+  }, [cursor, moves.length]);
 
-  // Responsive cell size
+  // Replay playback: one move per tick until the last position
   useEffect(() => {
-    const updateCellSize = () => {
-      const width = window.innerWidth;
-      if (width < 640) {
-        setCellSize(18); // Mobile
-      } else if (width < 1024) {
-        setCellSize(24); // Tablet
-      } else {
-        setCellSize(28); // Desktop
+    if (!replayPlaying) return;
+    if (cursor >= positions.length - 1) {
+      setReplayPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setCursor(cursor + 1);
+      if (!prefersReducedMotion()) {
+        setAnimation({ index: cursor + 1, startedAt: performance.now() });
+        setAnimationProgress(0);
       }
-    };
-    updateCellSize();
-    window.addEventListener("resize", updateCellSize);
-    return () => window.removeEventListener("resize", updateCellSize);
-  }, []);
+    }, 1000 / replaySpeed);
+    return () => clearTimeout(timer);
+  }, [replayPlaying, cursor, positions.length, replaySpeed]);
 
-  // Auto-play AI when enabled and it's angel's turn
+  // Drive the move animation frame by frame
   useEffect(() => {
-    if (aiEnabled && currentTurn === "angel" && !gameOver) {
-      const timer = setTimeout(() => {
-        makeAIMove();
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [aiEnabled, currentTurn, gameOver, angelPos, eatenSquares]);
+    if (!animation) return;
+    const duration = animationDuration(replaySpeed);
+    let frame = requestAnimationFrame(function tick(now) {
+      const progress = Math.min(1, (now - animation.startedAt) / duration);
+      setAnimationProgress(progress);
+      if (progress < 1) frame = requestAnimationFrame(tick);
+      else setAnimation(null);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [animation, replaySpeed]);
+
 
   // Prevent scroll on wheel event over the grid container
   useEffect(() => {
@@ -178,191 +505,681 @@ export default function AngelDevil() {
     const handleNativeWheel = (e: WheelEvent) => {
       e.preventDefault();
       const delta = e.deltaY > 0 ? 0.9 : 1.1;
-      setZoom(prev => Math.max(MIN_ZOOM, Math.min(gridSize, prev * delta)));
+      setViewSize(prev => clampViewSize(prev / delta, renderer));
     };
 
     container.addEventListener('wheel', handleNativeWheel, { passive: false });
     return () => container.removeEventListener('wheel', handleNativeWheel);
-  }, [MIN_ZOOM, gridSize]);
-
-  // Reset game
-  const resetGame = () => {
-    setAngelPos({ q: 0, r: 0 });
-    setEatenSquares(new Set());
-    setVisitedSquares(new Set([coordKey({ q: 0, r: 0 })]));
-    setReachableHistory([]);
-    setHighlightedSquares(new Set());
-    setCurrentTurn("angel");
-    setGameOver(false);
-    setWinner(null);
-    setViewOffset({ x: 0, y: 0 });
-    setZoom(DEFAULT_ZOOM);
+  }, [renderer]);
+
+  // Switching to a renderer with a smaller zoom-out limit
+  useEffect(() => {
+    setViewSize(prev => clampViewSize(prev, renderer));
+  }, [renderer]);
+
+  // Keep the angel in view as it moves
+  useEffect(() => {
+    if (followAngel) setViewCenter(cellCenter(angelPos, gridType));
+  }, [followAngel, angelPos, gridType]);
+
+  // Reset game, optionally with new settings or a starting setup. Leaves
+  // any puzzle being played.
+  const resetGame = (nextSettings: GameSettings = settings, setup: GameSetup = DEFAULT_SETUP) => {
+    const start = createGame(nextSettings, setup);
+    setGameId(prev => prev + 1);
+    setPositions([start]);
+    setMoves([]);
+    setCursor(0);
+    setViewCenter(cellCenter(setup.angelPos, nextSettings.gridType));
+    setViewSize(DEFAULT_VIEW_SIZE);
+    setSetupDraft(null);
+    setPuzzle(null);
+    setReplayPlaying(false);
+    sendSync([], [start], 0);
   };
 
-  // Handle grid type change
-  const handleGridTypeChange = () => {
-    setGridType(prev => prev === "square" ? "hex" : "square");
-    resetGame();
+  // New game with rules picked in the settings, which become the preferred ones
+  const changeSettings = (nextSettings: GameSettings) => {
+    setPreferredSettings(nextSettings);
+    resetGame(nextSettings);
   };
 
-  // Get valid moves for the angel
-  const getValidMoves = (pos: Coord): Coord[] => {
-    const distFn = gridType === "hex" ? hexDistance : squareDistance;
-    const allInRange = getCellsInRange(pos, angelPower, gridType, gridSize);
+  // Play the current game again from the position it started in
+  const restartGame = () => {
+    const current = puzzle;
+    resetGame(settings, gameSetup(positions[0]));
+    setPuzzle(current);
+  };
 
-    let validMoves = allInRange.filter(coord => {
-      const key = coordKey(coord);
-      // Can't move to eaten squares
-      if (eatenSquares.has(key)) return false;
-
-      // Check angel type constraints
-      if (angelType === "nice" && visitedSquares.has(key)) return false;
-      if (angelType === "very-nice") {
-        for (const reachable of reachableHistory) {
-          if (reachable.has(key)) return false;
-        }
+  // Start a puzzle, with the computer taking the other side
+  const startPuzzle = (next: Puzzle) => {
+    resetGame(next.settings, next.setup);
+    setPuzzle(next);
+    const player = puzzlePlayer(next);
+    setAiEnabled(player === "devil");
+    setDevilAiEnabled(player === "angel");
+    if (player === "devil") setAiStrategy("lookahead");
+    else setDevilStrategy("min-moves");
+  };
+
+  // Click on the board while editing the setup
+  const editSetup = (coord: Coord) => {
+    if (!setupDraft) return;
+    const key = coordKey(coord);
+    const eaten = setupDraft.eatenSquares.filter(k => k !== key);
+    if (setupPiece === "angel") {
+      setSetupDraft({ ...setupDraft, angelPos: coord, eatenSquares: eaten });
+    } else if (!sameCoord(coord, setupDraft.angelPos)) {
+      setSetupDraft({
+        ...setupDraft,
+        eatenSquares: eaten.length < setupDraft.eatenSquares.length ? eaten : [...eaten, key],
+      });
+    }
+  };
+
+  // Send the whole game to the other player. Annotations stay private.
+  const sendSync = (syncMoves: Move[], syncPositions: GameState[], syncCursor: number) => {
+    transportRef.current?.send({
+      type: "sync",
+      from: peerId,
+      game: saveGame(syncMoves, syncPositions, EMPTY_ANNOTATIONS, syncCursor),
+    });
+  };
+
+  // Replace the current game with a loaded one
+  const applyLoadedGame = (loaded: LoadedGame) => {
+    setReplayPlaying(false);
+    setSetupDraft(null);
+    setPuzzle(null);
+    setGameId(prev => prev + 1);
+    setPositions(loaded.positions);
+    setMoves(loaded.moves);
+    setCursor(loaded.cursor);
+    setAnnotations(loaded.annotations);
+    setActiveLayerId(loaded.annotations.layers[0].id);
+    setNoteCell(null);
+    setViewCenter({ x: 0, y: 0 });
+    setViewSize(DEFAULT_VIEW_SIZE);
+  };
+
+  // Restore the stored preferences, and offer the game left in progress
+  // unless a shared game is about to replace it. A game given in the props
+  // stays.
+  useEffect(() => {
+    if (!persist) return;
+    const prefs = loadPreferences(DEFAULT_PREFERENCES);
+    setDarkMode(prefs.darkMode);
+    setShowCoordinates(prefs.showCoordinates);
+    setShowAnalysis(prefs.showAnalysis);
+    setRenderer(prefs.renderer);
+    setAiEnabled(prefs.aiEnabled);
+    setAiStrategy(prefs.aiStrategy);
+    setDevilAiEnabled(prefs.devilAiEnabled);
+    setDevilStrategy(prefs.devilStrategy);
+    setDevilDistance(prefs.devilDistance);
+    setRememberGame(prefs.rememberGame);
+    setPreferredSettings(prefs.settings);
+    if (opening.fromProps) {
+      setPreferencesLoaded(true);
+      return;
+    }
+    setPositions([createGame(prefs.settings)]);
+    const saved = loadLastGame();
+    if (saved && prefs.rememberGame && !window.location.hash.startsWith("#game=")) {
+      try {
+        const loaded = loadGame(saved);
+        if (loaded.moves.length > 0) setLastGame(loaded);
+      } catch {
+        // Unreadable; the next game played replaces it
       }
-      if (angelType === "fool" && coord.r <= pos.r) return false;
-      if (angelType === "out-and-out-fool" && euclideanDistance(coord) <= euclideanDistance(pos)) return false;
+    }
+    setPreferencesLoaded(true);
+  }, [persist, opening]);
+
+  // Load a game shared through the URL (#game=<code>)
+  useEffect(() => {
+    const hash = window.location.hash;
+    if (!persist || settingsLocked || !hash.startsWith("#game=")) return;
+    try {
+      applyLoadedGame(loadGame(decodeGame(decodeURIComponent(hash.slice("#game=".length)))));
+    } catch (e: unknown) {
+      setShareMessage(`Could not load shared game: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    // Only on first load; later hash changes come from our own links
+  }, [persist, settingsLocked]);
+
+  const savedGame = useMemo(() => saveGame(moves, positions, annotations, cursor), [moves, positions, annotations, cursor]);
+
+  // Errors go to the latest handler, so effects needn't rerun for a new one
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const reportLoadError = (error: string) => {
+    setShareMessage(error);
+    onErrorRef.current?.(error);
+  };
+
+  useEffect(() => {
+    if (opening.error) reportLoadError(opening.error);
+    // Only on first load
+  }, [opening]);
+
+  // Show a controlled game, unless it is the one we just reported. It isn't
+  // reported back, and one that doesn't load leaves the board as it is.
+  useEffect(() => {
+    if (!game) return;
+    const json = JSON.stringify(game);
+    if (json === shownGameRef.current || json === reportedGameRef.current) return;
+    shownGameRef.current = json;
+    try {
+      const loaded = loadGame(game);
+      reportedGameRef.current = JSON.stringify(saveLoadedGame(loaded));
+      applyLoadedGame(loaded);
+    } catch (e: unknown) {
+      reportLoadError(`Could not load the game: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [game]);
+
+  useEffect(() => {
+    const json = JSON.stringify(savedGame);
+    if (json === reportedGameRef.current) return;
+    reportedGameRef.current = json;
+    onStateChange?.(savedGame);
+  }, [savedGame, onStateChange]);
 
-      return true;
+  const currentSave = () => savedGame;
+
+  useEffect(() => {
+    if (!preferencesLoaded) return;
+    savePreferences({
+      darkMode,
+      showCoordinates,
+      showAnalysis,
+      renderer,
+      aiEnabled,
+      aiStrategy,
+      devilAiEnabled,
+      devilStrategy,
+      devilDistance,
+      settings: preferredSettings,
+      rememberGame,
     });
+  }, [
+    preferencesLoaded, darkMode, showCoordinates, showAnalysis, renderer, aiEnabled, aiStrategy,
+    devilAiEnabled, devilStrategy, devilDistance, preferredSettings, rememberGame,
+  ]);
+
+  // Keep the game in progress for the next visit. A new game only replaces
+  // the stored one once it has a move, so the offer to resume survives.
+  useEffect(() => {
+    if (!preferencesLoaded) return;
+    if (!rememberGame || gameResult(positions[positions.length - 1])) saveLastGame(null);
+    else if (moves.length > 0) saveLastGame(savedGame);
+  }, [preferencesLoaded, rememberGame, moves.length, positions, savedGame]);
+
+  const resumeLastGame = () => {
+    if (!lastGame) return;
+    applyLoadedGame(lastGame);
+    sendSync(lastGame.moves, lastGame.positions, lastGame.cursor);
+    setLastGame(null);
+  };
+
+  const exportGameJson = () => {
+    downloadBlob(new Blob([JSON.stringify(currentSave(), null, 2)], { type: "application/json" }), "angel-game.json");
+  };
+
+  const importGameJson = async (file: File) => {
+    try {
+      const loaded = loadGame(JSON.parse(await file.text()));
+      applyLoadedGame(loaded);
+      sendSync(loaded.moves, loaded.positions, loaded.cursor);
+      setShareMessage(`Loaded ${file.name}`);
+    } catch (e: unknown) {
+      setShareMessage(`Could not load ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const copyGameLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#game=${encodeGame(currentSave())}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareMessage("Link copied to clipboard");
+    } catch {
+      setShareMessage(url);
+    }
+  };
+
+  // Handle grid type change
+  const handleGridTypeChange = (nextGridType: GridType) => {
+    changeSettings({ ...settings, gridType: nextGridType });
+  };
 
-    return validMoves;
+  const result = gameResult(position);
+  const gameOver = result !== null;
+
+  const puzzleProgress = puzzle && puzzleStatus(puzzle, moves.slice(0, cursor), position);
+
+  // Progress through a turn of several actions
+  const actionsThisTurn = currentTurn === "angel" ? turnRules.angelMoves : turnRules.devilEats;
+  const turnsUntilDevil = turnRules.devilEvery - (completedAngelTurns(position) % turnRules.devilEvery);
+  const winner = result?.winner ?? null;
+
+  // Run the lookahead search in the worker. Anything that changes the game
+  // cancels it, so the reply always belongs to the current position.
+  const startSearch = () => {
+    const worker = searchWorkerRef.current ?? new Worker(new URL("./angel/searchWorker.ts", import.meta.url));
+    searchWorkerRef.current = worker;
+    const id = ++searchIdRef.current;
+    pendingSearchRef.current = id;
+    worker.onmessage = (e: MessageEvent<SearchResponse>) => {
+      if (e.data.id !== pendingSearchRef.current) return;
+      pendingSearchRef.current = null;
+      setAiThinking(false);
+      if (e.data.result.move) moveAngel(e.data.result.move);
+    };
+    setAiThinking(true);
+    const request: SearchRequest = { id, state: position, options: searchOptions };
+    worker.postMessage(request);
   };
 
-  // Check if angel is trapped
-  const checkAngelTrapped = (): boolean => {
-    return getValidMoves(angelPos).length === 0;
+  // Stop a running search by discarding its worker
+  const cancelSearch = () => {
+    if (pendingSearchRef.current === null) return;
+    pendingSearchRef.current = null;
+    searchWorkerRef.current?.terminate();
+    searchWorkerRef.current = null;
+    setAiThinking(false);
   };
 
+  useEffect(() => {
+    const workerRef = searchWorkerRef;
+    return () => workerRef.current?.terminate();
+  }, []);
+
   // Make AI move
   const makeAIMove = () => {
-    const validMoves = getValidMoves(angelPos);
-    if (validMoves.length === 0) {
-      setGameOver(true);
-      setWinner("devil");
+    if (aiStrategy === "lookahead") {
+      startSearch();
       return;
     }
+    const chosenMove = chooseAngelMove(aiStrategy, position, Math.random, DEFAULT_SEARCH_OPTIONS, walker);
+    if (chosenMove) {
+      moveAngel(chosenMove);
+    }
+  };
 
-    let chosenMove: Coord;
+  // Make Devil AI move
+  const makeDevilAIMove = () => {
+    const chosenEat = chooseDevilMove(devilStrategy, position, devilDistance);
+    if (chosenEat) {
+      eatSquare(chosenEat);
+    }
+  };
 
-    if (aiStrategy === "random") {
-      // Random strategy
-      chosenMove = validMoves[Math.floor(Math.random() * validMoves.length)];
-    } else {
-      // Greedy strategy: maximize sum of distances to eaten squares
-      let bestMove = validMoves[0];
-      let bestScore = -Infinity;
-      const distFn = gridType === "hex" ? hexDistance : squareDistance;
-
-      for (const move of validMoves) {
-        let score = 0;
-        for (const eatenKey of eatenSquares) {
-          const eatenCoord = parseCoordKey(eatenKey);
-          score += distFn(move, eatenCoord);
-        }
-        // Add small bonus for distance from origin
-        score += euclideanDistance(move) * 0.1;
+  // Record a move played from positions[from], discarding any undone moves
+  // after it. Moves of our own go to the other player too.
+  const pushMove = (move: Move, next: GameState, from: number = cursor, remote = false) => {
+    setPositions(prev => [...prev.slice(0, from + 1), next]);
+    setMoves(prev => [...prev.slice(0, from), move]);
+    setCursor(from + 1);
+
+    if (!remote && from === positions.length - 1) {
+      transportRef.current?.send({ type: "move", from: peerId, index: from, move: moveNotation(move) });
+    } else if (!remote) {
+      // Played over undone moves: the other player needs the new history
+      sendSync([...moves.slice(0, from), move], [...positions.slice(0, from + 1), next], from + 1);
+    }
 
-        if (score > bestScore) {
-          bestScore = score;
-          bestMove = move;
-        }
-      }
-      chosenMove = bestMove;
+    onMove?.(move, next);
+
+    // Record the result if this move finished the game
+    const nextResult = gameResult(next);
+    if (nextResult) {
+      onGameOver?.(nextResult, next);
+      setResults(prev => [
+        ...prev.filter(entry => entry.gameId !== gameId),
+        { gameId, settings, result: nextResult },
+      ]);
+      // peerId also tells this window's games apart from other windows'
+      const record = recordGame(`${peerId}:${gameId}`, positions[0], next, {
+        angel: controller("angel"),
+        devil: controller("devil"),
+      });
+      if (record) setRecords(prev => prev && addRecord(prev, record));
     }
+  };
 
-    moveAngel(chosenMove);
+  // Who is playing a side, as recorded in the statistics
+  const controller = (turn: Turn): Controller => {
+    if (connectedSide !== null && connectedSide !== turn) return "remote";
+    return (turn === "angel" ? aiEnabled : devilAiEnabled) ? "computer" : "human";
   };
 
+  useEffect(() => {
+    setRecords(persist ? loadRecords() : []);
+  }, [persist]);
+
+  useEffect(() => {
+    if (persist && records) saveRecords(records);
+  }, [persist, records]);
+
   // Move angel
   const moveAngel = (newPos: Coord) => {
-    // Store current reachable squares for very-nice angel
-    if (angelType === "very-nice") {
-      const reachable = new Set(
-        getCellsInRange(angelPos, angelPower, gridType, gridSize).map(coordKey)
-      );
-      setReachableHistory(prev => [...prev, reachable]);
-    }
-
-    setAngelPos(newPos);
-    setVisitedSquares(prev => new Set([...prev, coordKey(newPos)]));
-    setCurrentTurn("devil");
+    const move: Move = { player: "angel", coord: newPos };
+    pushMove(move, applyMove(position, move));
   };
 
   // Eat square (Devil's turn)
   const eatSquare = (coord: Coord) => {
-    const key = coordKey(coord);
-    if (eatenSquares.has(key)) return; // Already eaten
-    if (coord.q === angelPos.q && coord.r === angelPos.r) return; // Can't eat angel's position
+    // Nothing left to eat there (with an eat shape, the anchor itself may
+    // already be eaten)
+    const move: Move = { player: "devil", coord };
+    if (!isLegalMove(position, move)) return;
+    pushMove(move, applyMove(position, move));
+  };
+
+  // Against a single computer opponent, undo/redo skip over the computer's
+  // turns so that a human is always to move afterwards
+  const isComputerTurn = (turn: Turn) =>
+    aiEnabled !== devilAiEnabled && (turn === "angel" ? aiEnabled : devilAiEnabled);
+
+  // Moving back would let a move branch the shared game, so not in a room
+  const undo = () => {
+    if (connectedSide !== null) return;
+    let next = cursor - 1;
+    while (next > 0 && isComputerTurn(positions[next].currentTurn)) next--;
+    setCursor(Math.max(0, next));
+  };
+
+  const redo = () => {
+    if (connectedSide !== null) return;
+    let next = cursor + 1;
+    while (next < positions.length - 1 && isComputerTurn(positions[next].currentTurn)) next++;
+    setCursor(Math.min(positions.length - 1, next));
+  };
+
+  // The replay controls step through every move, whoever played it
+  const replayStep = (delta: number) => {
+    const next = Math.min(positions.length - 1, Math.max(0, cursor + delta));
+    setCursor(next);
+    if (delta === 1 && next !== cursor && !prefersReducedMotion()) {
+      setAnimation({ index: next, startedAt: performance.now() });
+      setAnimationProgress(0);
+    } else {
+      setAnimation(null);
+    }
+  };
+
+  // Play from the start again once the end is reached
+  const toggleReplay = () => {
+    if (!replayPlaying && isLatestPosition) setCursor(0);
+    setReplayPlaying(!replayPlaying);
+  };
+
+  // Drop the undone moves so the computer players resume from the shown position
+  const continueFromHere = () => {
+    setPositions(prev => prev.slice(0, cursor + 1));
+    setMoves(prev => prev.slice(0, cursor));
+    sendSync(moves.slice(0, cursor), positions.slice(0, cursor + 1), cursor);
+  };
 
-    setEatenSquares(prev => new Set([...prev, key]));
-    setCurrentTurn("angel");
+  // Whether this window plays the given side
+  const playsSide = (turn: Turn) => connectedSide === null || connectedSide === turn;
+
+  // The other player's game, with our own annotations. Unless we are just
+  // joining, it may only add to the game or change the sender's own moves.
+  const applyRemoteGame = (game: unknown, sender: Turn | null) => {
+    let loaded: LoadedGame;
+    try {
+      loaded = loadGame(game);
+    } catch (e: unknown) {
+      setNetStatus(`Rejected the other player's game: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    if (sender && !acceptsSync({ moves, positions }, loaded, sender)) {
+      setNetStatus(`Rejected the other player's game: it changes the ${sender === "angel" ? "devil" : "angel"}'s moves`);
+      return;
+    }
+    applyLoadedGame({ ...loaded, annotations });
+  };
 
-    // Check if angel is now trapped
-    setTimeout(() => {
-      if (checkAngelTrapped()) {
-        setGameOver(true);
-        setWinner("devil");
+  const handleNetMessage = (message: NetMessage) => {
+    const transport = transportRef.current;
+    if (!transport || !connectedSide || message.from === peerId) return;
+    const otherSide: Turn = connectedSide === "angel" ? "devil" : "angel";
+
+    switch (message.type) {
+      case "hello":
+        // Whoever is already here shares their game
+        awaitingWelcomeRef.current = false;
+        transport.send({ type: "welcome", from: peerId, side: connectedSide, game: saveGame(moves, positions, EMPTY_ANNOTATIONS, cursor) });
+        setNetStatus(`The ${otherSide} joined room "${netRoom}"`);
+        break;
+      case "welcome":
+        if (!awaitingWelcomeRef.current) return;
+        awaitingWelcomeRef.current = false;
+        applyRemoteGame(message.game, null);
+        if (message.side === connectedSide) setConnectedSide(otherSide);
+        setNetStatus(`Joined room "${netRoom}" as the ${message.side === connectedSide ? otherSide : connectedSide}`);
+        break;
+      case "sync":
+        applyRemoteGame(message.game, otherSide);
+        break;
+      case "move": {
+        // Only the other side's moves, played on the latest position and
+        // legal there; anything else means the games have drifted apart
+        const move = parseMoveNotation(message.move);
+        const latest = positions.length - 1;
+        if (!move || move.player === connectedSide || message.index !== latest || !isLegalMove(positions[latest], move)) {
+          transport.send({ type: "resync", from: peerId });
+          return;
+        }
+        pushMove(move, applyMove(positions[latest], move), latest, true);
+        break;
       }
-    }, 100);
+      case "resync":
+        sendSync(moves, positions, cursor);
+        break;
+      case "bye":
+        setNetStatus(`The ${otherSide} left the room`);
+        break;
+    }
+  };
+  netHandlerRef.current = handleNetMessage;
+
+  const connect = () => {
+    const room = netRoom.trim();
+    if (netMode === "hotseat" || room === "") return;
+    transportRef.current = openTransport(
+      netMode,
+      room,
+      peerId,
+      message => netHandlerRef.current(message),
+      error => setNetStatus(`Relay: ${error}`)
+    );
+    awaitingWelcomeRef.current = true;
+    setConnectedSide(netSide);
+    setNetStatus(`Waiting for the other player in room "${room}"…`);
+    transportRef.current.send({ type: "hello", from: peerId, side: netSide });
   };
 
+  const disconnect = () => {
+    transportRef.current?.send({ type: "bye", from: peerId });
+    transportRef.current?.close();
+    transportRef.current = null;
+    setConnectedSide(null);
+    setNetStatus(null);
+  };
+
+  useEffect(() => {
+    const transports = transportRef;
+    return () => {
+      transports.current?.send({ type: "bye", from: peerId });
+      transports.current?.close();
+    };
+  }, [peerId]);
+
+  // Auto-play AI when enabled and it's angel's turn
+  useEffect(() => {
+    if (aiEnabled && !readOnly && connectedSide !== "devil" && currentTurn === "angel" && !gameOver && isLatestPosition && !editing) {
+      const timer = setTimeout(() => {
+        makeAIMove();
+      }, 500);
+      return () => {
+        clearTimeout(timer);
+        cancelSearch();
+      };
+    }
+  }, [aiEnabled, readOnly, connectedSide, currentTurn, gameOver, isLatestPosition, editing, position]);
+
+  // Auto-play Devil AI when enabled and it's devil's turn
+  useEffect(() => {
+    if (devilAiEnabled && !readOnly && connectedSide !== "angel" && currentTurn === "devil" && !gameOver && isLatestPosition && !editing) {
+      const timer = setTimeout(() => {
+        makeDevilAIMove();
+      }, 500);
+      return () => clearTimeout(timer);
+    }
+  }, [devilAiEnabled, readOnly, connectedSide, currentTurn, gameOver, isLatestPosition, editing, position]);
+
   // Handle cell pointer down (starts highlight drag or handles select)
   const handleCellPointerDown = (coord: Coord, e: React.PointerEvent) => {
-    if (gameOver) return;
-
     // Don't handle cell interactions in pan mode - let it bubble to container
     if (activeTool === "pan") return;
 
+    if (editing) {
+      e.preventDefault();
+      e.stopPropagation();
+      editSetup(coord);
+      return;
+    }
     e.preventDefault();
     e.stopPropagation();
 
     if (activeTool === "highlight") {
       const key = coordKey(coord);
-      // Start highlighting drag - determine mode based on current state
+      // Start highlighting drag on the active layer - determine mode based on current state
       setIsHighlighting(true);
-      const wasHighlighted = highlightedSquares.has(key);
+      const wasHighlighted = activeLayer.squares.has(key);
       setHighlightMode(wasHighlighted ? 'remove' : 'add');
-
-      setHighlightedSquares(prev => {
-        const next = new Set(prev);
-        if (wasHighlighted) {
-          next.delete(key);
-        } else {
-          next.add(key);
-        }
-        return next;
-      });
+      setAnnotations(prev => paintSquare(prev, activeLayer.id, key, !wasHighlighted));
+    } else if (activeTool === "note") {
+      setNoteCell(coord);
+      setNoteDraft(annotations.notes.get(coordKey(coord)) ?? "");
     } else if (activeTool === "select") {
-      if (currentTurn === "angel") {
-        const validMoves = getValidMoves(angelPos);
-        const isValidMove = validMoves.some(m => m.q === coord.q && m.r === coord.r);
-        if (isValidMove) {
-          moveAngel(coord);
-        }
-      } else if (currentTurn === "devil") {
+      playCell(coord);
+    }
+  };
+
+  // Play the human's move on a cell; false if there is no legal one there
+  const playCell = (coord: Coord): boolean => {
+    if (gameOver || readOnly || !canPlayHere) return false;
+    if (currentTurn === "angel" && !aiEnabled && playsSide("angel")) {
+      const validMoves = angelDestinations(position);
+      const isValidMove = validMoves.some(m => m.q === coord.q && m.r === coord.r);
+      if (isValidMove) {
+        moveAngel(coord);
+        return true;
+      }
+    } else if (currentTurn === "devil" && !devilAiEnabled && playsSide("devil")) {
+      if (isLegalMove(position, { player: "devil", coord })) {
         eatSquare(coord);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // Move the keyboard cursor, scrolling the view to keep it on screen
+  const moveKeyCursor = (coord: Coord) => {
+    setKeyCursor(coord);
+    setAnnouncement(describeCell(position, coord, annotations));
+    const { x, y } = cellCenter(coord, gridType);
+    if (x < viewRect.x + 1 || x > viewRect.x + viewRect.width - 1 ||
+      y < viewRect.y + 1 || y > viewRect.y + viewRect.height - 1) {
+      setFollowAngel(false);
+      setViewCenter({ x, y });
+    }
+  };
+
+  // Enter or Space: what a click on the cell would do with the current tool
+  const activateCell = (coord: Coord) => {
+    const key = coordKey(coord);
+    if (editing) {
+      editSetup(coord);
+    } else if (activeTool === "highlight") {
+      const on = !activeLayer.squares.has(key);
+      setAnnotations(prev => paintSquare(prev, activeLayer.id, key, on));
+      setAnnouncement(`${on ? "Added to" : "Removed from"} ${activeLayer.name || "the layer"}.`);
+    } else if (activeTool === "note") {
+      setNoteCell(coord);
+      setNoteDraft(annotations.notes.get(key) ?? "");
+    } else if (activeTool === "select" && !playCell(coord)) {
+      setAnnouncement(gameOver ? describeTurn(position) : "No move for you there.");
+    }
+  };
+
+  const handleBoardKeyDown = (e: React.KeyboardEvent) => {
+    if (isEditableTarget(e.target)) return;
+    // Undo/redo shortcuts, only while this board has focus
+    if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
       }
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const direction = ARROW_DIRECTIONS[e.key];
+    const tool = TOOL_KEYS[e.key.toLowerCase()];
+    if (direction && e.shiftKey) {
+      const step = viewSize * KEY_PAN;
+      setFollowAngel(false);
+      setViewCenter(prev => ({
+        x: prev.x + (direction === "left" ? -step : direction === "right" ? step : 0),
+        y: prev.y + (direction === "up" ? -step : direction === "down" ? step : 0),
+      }));
+    } else if (direction) {
+      moveKeyCursor(keyboardStep(keyCursor ?? angelPos, direction, gridType));
+    } else if (e.key === "Enter" || e.key === " ") {
+      if (keyCursor) activateCell(keyCursor);
+      else moveKeyCursor(angelPos);
+    } else if (e.key === "a" || e.key === "A") {
+      moveKeyCursor(angelPos);
+    } else if (e.key === "+" || e.key === "=") {
+      setViewSize(prev => clampViewSize(prev / KEY_ZOOM, renderer));
+    } else if (e.key === "-" || e.key === "_") {
+      setViewSize(prev => clampViewSize(prev * KEY_ZOOM, renderer));
+    } else if (tool) {
+      setActiveTool(tool);
+      setAnnouncement(`${TOOL_LABELS[tool]} tool.`);
+    } else if (e.key === "Escape" && keyCursor) {
+      setKeyCursor(null);
+    } else {
+      return;
     }
+    e.preventDefault();
   };
 
+  // Announce each move, and the position reached by undo, redo or browsing
+  useEffect(() => {
+    if (editing) return;
+    const move = moves[cursor - 1];
+    setAnnouncement(move ? describeMove(move, positions[cursor - 1], positions[cursor]) : describeTurn(positions[cursor]));
+  }, [editing, moves, positions, cursor]);
+
   // Handle cell enter (for drag highlighting)
   const handleCellEnter = (coord: Coord) => {
-    if (gameOver) return;
     if (!isHighlighting || activeTool !== "highlight" || !highlightMode) return;
+    setAnnotations(prev => paintSquare(prev, activeLayer.id, coordKey(coord), highlightMode === 'add'));
+  };
 
-    const key = coordKey(coord);
-    setHighlightedSquares(prev => {
-      const next = new Set(prev);
-      if (highlightMode === 'add') {
-        next.add(key);
-      } else {
-        next.delete(key);
-      }
-      return next;
-    });
+  const saveNote = () => {
+    if (noteCell) setAnnotations(prev => setNote(prev, coordKey(noteCell), noteDraft));
+    setNoteCell(null);
   };
 
   // Pan/zoom handlers
@@ -371,7 +1188,7 @@ export default function AngelDevil() {
 
     if (activeTool === "pan") {
       setIsPanning(true);
-      setPanStart({ x: e.clientX - viewOffset.x, y: e.clientY - viewOffset.y });
+      setPanStart({ x: e.clientX, y: e.clientY, center: viewCenter });
       (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
     }
 
@@ -393,10 +1210,7 @@ export default function AngelDevil() {
 
       if (lastPinchDistanceRef.current) {
         const scaleFactor = distance / lastPinchDistanceRef.current;
-        setZoom(prev => {
-          const nextZoom = prev * scaleFactor;
-          return Math.max(MIN_ZOOM, Math.min(gridSize, nextZoom));
-        });
+        setViewSize(prev => clampViewSize(prev / scaleFactor, renderer));
       }
 
       lastPinchDistanceRef.current = distance;
@@ -404,9 +1218,12 @@ export default function AngelDevil() {
     }
 
     if (isPanning && activeTool === "pan") {
-      setViewOffset({
-        x: e.clientX - panStart.x,
-        y: e.clientY - panStart.y,
+      // Convert the screen-space drag into board units
+      const unitsPerPixel = viewSize / (containerRef.current?.clientWidth || 1);
+      setFollowAngel(false);
+      setViewCenter({
+        x: panStart.center.x - (e.clientX - panStart.x) * unitsPerPixel,
+        y: panStart.center.y - (e.clientY - panStart.y) * unitsPerPixel,
       });
     }
   };
@@ -422,153 +1239,246 @@ export default function AngelDevil() {
     }
   };
 
-  // Render grid
+  // Visible window of the board, in board units
+  const viewRect = {
+    x: viewCenter.x - viewSize / 2,
+    y: viewCenter.y - viewSize / 2,
+    width: viewSize,
+    height: viewSize,
+  };
+
+  // Cell colors, shared by the SVG and canvas renderers
+  const emptyFill = darkMode ? "#1a1a1a" : "#ffffff";
+  const gridStroke = darkMode ? "#404040" : "#d1d5db";
+  const labelColor = darkMode ? "#888" : "#666";
+  const angelImage = darkMode ? "/angel-dark.svg" : "/angel-apparition-svgrepo-com.svg";
+  const cellCursor = activeTool === "select" || activeTool === "note" ? "pointer" : activeTool === "highlight" ? "crosshair" : "grab";
+  const noteColor = darkMode ? "#f9fafb" : "#111827";
+  const focusStroke = darkMode ? "#60a5fa" : "#1d4ed8";
+  // Layers worth a legend entry
+  const visibleLayers = annotations.layers.filter(layer => layer.visible && layer.squares.size > 0);
+  const validMoveKeys = new Set((currentTurn === "angel" && !gameOver && !editing && !readOnly && canPlayHere ? angelDestinations(position) : []).map(coordKey));
+  // Squares reachable on a previous turn (for Very Nice Angel), merged once
+  // rather than checked per cell and turn
+  const previouslyReachable = useMemo(
+    () => new Set(reachableHistory.flatMap(reachable => [...reachable])),
+    [reachableHistory]
+  );
+  // Reachability overlay; the seal computation is too slow to redo per render
+  const analysis = useMemo(() => (showAnalysis ? analyzePosition(position) : null), [showAnalysis, position]);
+  const sealCutKeys = useMemo(() => new Set(analysis?.sealCut?.map(coordKey) ?? []), [analysis]);
+  // The walk a runner strategy is shadowing, as of the position shown
+  const runnerStrategy = RUNNER_STRATEGIES.find(strategy => strategy === aiStrategy) ?? null;
+  // The trail is kept across renders, so a new move costs one step
+  const runnerTrailRef = useRef<RunnerTrail | null>(null);
+  const walker = useMemo(() => {
+    if (!aiEnabled || !runnerStrategy || !runnerSupported(runnerStrategy, positions[0])) return null;
+    const trail = extendRunnerTrail(runnerTrailRef.current, runnerStrategy, positions);
+    runnerTrailRef.current = trail;
+    return {
+      ...runnerView(trail, cursor),
+      bookkeeping: runnerStrategy === "mathe" ? matheBookkeeping(trail, cursor) : null,
+    };
+  }, [aiEnabled, runnerStrategy, positions, cursor]);
+
+  // The move being animated, while its position is the one shown
+  const moveAnimation = animation && animation.index === cursor && cursor > 0
+    ? animateMove(positions[cursor - 1], positions[cursor], animationProgress)
+    : null;
+
+  const getCellFill = (coord: Coord): string => {
+    const key = coordKey(coord);
+    const isEaten = eatenSquares.has(key);
+    const isVisited = visitedSquares.has(key) && angelType !== "regular";
+    const highlight = highlightColor(annotations, key);
+    const isValidMove = validMoveKeys.has(key);
+
+    const wasPreviouslyReachable = angelType === "very-nice" && previouslyReachable.has(key);
+
+    let fill = emptyFill;
+    if (isAngelGoal(coord, settings)) fill = darkMode ? "#312e81" : "#e0e7ff";
+    if (analysis?.reachable.has(key)) fill = darkMode ? "#2e1065" : "#ede9fe";
+    if (isEaten) fill = darkMode ? "#7f1d1d" : "#dc2626";
+    else if (highlight) fill = highlight;
+    else if (sealCutKeys.has(key)) fill = darkMode ? "#9a3412" : "#fb923c";
+    else if (analysis?.deadPockets.has(key)) fill = darkMode ? "#374151" : "#9ca3af";
+    else if (isVisited) fill = darkMode ? "#164e63" : "#67e8f9";
+    else if (wasPreviouslyReachable) fill = darkMode ? "#0c4a6e" : "#bae6fd";
+    else if (isValidMove && activeTool === "select") fill = darkMode ? "#065f46" : "#86efac";
+    if (isEaten && moveAnimation?.flashOn && moveAnimation.flashing.has(key)) fill = darkMode ? "#f59e0b" : "#fbbf24";
+    return fill;
+  };
+
+  // Legend of a board image: the colors that can appear in it
+  const imagePathColor = darkMode ? "#60a5fa" : "#2563eb";
+  const imageLegend = (): LegendEntry[] => [
+    { label: "Empty", color: emptyFill },
+    { label: "Eaten", color: darkMode ? "#7f1d1d" : "#dc2626" },
+    ...(angelType !== "regular" ? [{ label: "Visited", color: darkMode ? "#164e63" : "#67e8f9" }] : []),
+    ...(angelType === "very-nice" ? [{ label: "Prev. Reach.", color: darkMode ? "#0c4a6e" : "#bae6fd" }] : []),
+    ...visibleLayers.map(layer => ({ label: layer.name || "Highlights", color: layer.color })),
+    ...(validMoveKeys.size > 0 && activeTool === "select"
+      ? [{ label: "Valid Move", color: darkMode ? "#065f46" : "#86efac" }]
+      : []),
+    ...(winRule.type === "distance" || winRule.type === "escape"
+      ? [{ label: winRule.type === "escape" ? "Off Board" : "Goal", color: darkMode ? "#312e81" : "#e0e7ff" }]
+      : []),
+    ...(analysis
+      ? [
+        { label: "Reachable", color: darkMode ? "#2e1065" : "#ede9fe" },
+        { label: "Dead Pocket", color: darkMode ? "#374151" : "#9ca3af" },
+        { label: "Seals Region", color: darkMode ? "#9a3412" : "#fb923c" },
+      ]
+      : []),
+    ...(imageOptions.angelPath ? [{ label: "Angel Path", color: imagePathColor }] : []),
+  ];
+
+  const exportImage = async (format: "svg" | "png") => {
+    try {
+      const image = boardImageSvg(
+        {
+          history: positions.slice(0, cursor + 1),
+          moves: moves.slice(0, cursor),
+          viewRect,
+          cellFill: getCellFill,
+          colors: {
+            empty: emptyFill,
+            stroke: gridStroke,
+            label: labelColor,
+            path: imagePathColor,
+            text: darkMode ? "#d1d5db" : "#374151",
+            note: noteColor,
+          },
+          angelImage: await inlineImage(angelImage),
+          legend: imageLegend(),
+          notes: annotations.notes,
+        },
+        imageOptions
+      );
+      const blob = format === "svg"
+        ? new Blob([image.svg], { type: "image/svg+xml" })
+        : await boardImagePng(image);
+      downloadBlob(blob, `angel-board.${format}`);
+      setShareMessage(`Saved a ${image.width}×${image.height} ${format.toUpperCase()}`);
+    } catch (e: unknown) {
+      setShareMessage(`Could not export the board: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  // Render grid: only the cells around the viewport are generated
   const renderGrid = () => {
-    const halfSize = Math.floor(gridSize / 2);
     const cells: React.ReactElement[] = [];
-    const validMoves = currentTurn === "angel" && !gameOver ? getValidMoves(angelPos) : [];
-    const validMoveKeys = new Set(validMoves.map(coordKey));
-
-    if (gridType === "square") {
-      for (let r = -halfSize; r <= halfSize; r++) {
-        for (let q = -halfSize; q <= halfSize; q++) {
-          const coord = { q, r };
-          const key = coordKey(coord);
-          const isAngel = angelPos.q === q && angelPos.r === r;
-          const isEaten = eatenSquares.has(key);
-          const isVisited = visitedSquares.has(key) && angelType !== "regular";
-          const isHighlighted = highlightedSquares.has(key);
-          const isValidMove = validMoveKeys.has(key);
-
-          // Check if this square was reachable on a previous turn (for Very Nice Angel)
-          const wasPreviouslyReachable = angelType === "very-nice" &&
-            reachableHistory.some(reachableSet => reachableSet.has(key));
-
-          let fill = darkMode ? "#1a1a1a" : "#ffffff";
-          if (isEaten) fill = darkMode ? "#7f1d1d" : "#dc2626";
-          else if (isHighlighted) fill = darkMode ? "#854d0e" : "#fbbf24";
-          else if (isVisited) fill = darkMode ? "#164e63" : "#67e8f9";
-          else if (wasPreviouslyReachable) fill = darkMode ? "#0c4a6e" : "#bae6fd";
-          else if (isValidMove && activeTool === "select") fill = darkMode ? "#065f46" : "#86efac";
-
-          const x = (q + halfSize) * cellSize;
-          const y = (r + halfSize) * cellSize;
-
-          cells.push(
-            <g key={key}>
-              <rect
-                x={x}
-                y={y}
-                width={cellSize}
-                height={cellSize}
-                fill={fill}
-                stroke={darkMode ? "#404040" : "#d1d5db"}
-                strokeWidth={1}
-                style={{ cursor: activeTool === "select" ? "pointer" : activeTool === "highlight" ? "crosshair" : "grab" }}
-                onPointerDown={(e) => handleCellPointerDown(coord, e)}
-                onPointerEnter={() => handleCellEnter(coord)}
-              />
-              {showCoordinates && (
-                <text
-                  x={x + cellSize / 2}
-                  y={y + cellSize / 2}
-                  textAnchor="middle"
-                  dominantBaseline="middle"
-                  fontSize={cellSize * 0.3}
-                  fill={darkMode ? "#888" : "#666"}
-                  pointerEvents="none"
-                >
-                  {q},{r}
-                </text>
-              )}
-              {isAngel && (
-                <image
-                  aria-label="angel"
-                  
-                  href={darkMode ? "/angel-dark.svg" : "/angel-apparition-svgrepo-com.svg"}
-                  x={x + cellSize * 0.1}
-                  y={y + cellSize * 0.1}
-                  width={cellSize * 0.8}
-                  height={cellSize * 0.8}
-                  
-                  pointerEvents="none"
-                />
-              )}
-            </g>
-          );
-        }
-      }
-    } else {
-      // Hexagonal grid
-      const hexSize = cellSize * 0.55;
-      for (let r = -halfSize; r <= halfSize; r++) {
-        for (let q = -halfSize; q <= halfSize; q++) {
-          const coord = { q, r };
-          const key = coordKey(coord);
-          const isAngel = angelPos.q === q && angelPos.r === r;
-          const isEaten = eatenSquares.has(key);
-          const isVisited = visitedSquares.has(key) && angelType !== "regular";
-          const isHighlighted = highlightedSquares.has(key);
-          const isValidMove = validMoveKeys.has(key);
-
-          // Check if this square was reachable on a previous turn (for Very Nice Angel)
-          const wasPreviouslyReachable = angelType === "very-nice" &&
-            reachableHistory.some(reachableSet => reachableSet.has(key));
-
-          let fill = darkMode ? "#1a1a1a" : "#ffffff";
-          if (isEaten) fill = darkMode ? "#7f1d1d" : "#dc2626";
-          else if (isHighlighted) fill = darkMode ? "#854d0e" : "#fbbf24";
-          else if (isVisited) fill = darkMode ? "#164e63" : "#67e8f9";
-          else if (wasPreviouslyReachable) fill = darkMode ? "#0c4a6e" : "#bae6fd";
-          else if (isValidMove && activeTool === "select") fill = darkMode ? "#065f46" : "#86efac";
-
-          const { x, y } = hexToPixel(q, r, hexSize);
-          const centerX = x + (gridSize * hexSize * 3 / 2) / 2;
-          const centerY = y + (gridSize * hexSize * Math.sqrt(3)) / 2;
-
-          cells.push(
-            <g key={key} transform={`translate(${centerX}, ${centerY})`}>
-              <path
-                d={hexagonPath(hexSize)}
-                fill={fill}
-                stroke={darkMode ? "#404040" : "#d1d5db"}
-                strokeWidth={1}
-                style={{ cursor: activeTool === "select" ? "pointer" : activeTool === "highlight" ? "crosshair" : "grab" }}
-                onPointerDown={(e) => handleCellPointerDown(coord, e)}
-                onPointerEnter={() => handleCellEnter(coord)}
-              />
-              {showCoordinates && (
-                <text
-                  textAnchor="middle"
-                  dominantBaseline="middle"
-                  fontSize={hexSize * 0.35}
-                  fill={darkMode ? "#888" : "#666"}
-                  pointerEvents="none"
-                >
-                  {q},{r}
-                </text>
-              )}
-              {isAngel && (
-                <image
-                  aria-label="angel"
-                  href={darkMode ? "/angel-dark.svg" : "/angel-apparition-svgrepo-com.svg"}
-                  x={-hexSize * 0.4}
-                  y={-hexSize * 0.4}
-                  width={hexSize * 0.8}
-                  height={hexSize * 0.8}
-                  pointerEvents="none"
-                />
-              )}
-            </g>
-          );
-        }
-      }
+    const cursorStyle = { cursor: cellCursor };
+    const hexPath = hexagonPath(HEX_SIZE);
+    const triPaths = trianglePaths(TRIANGLE_SIZE);
+
+    for (const coord of getCellsInRect(viewRect, gridType)) {
+      const { q, r } = coord;
+      const key = coordKey(coord);
+      const isAngel = angelPos.q === q && angelPos.r === r && !moveAnimation?.angelPoint;
+      const fill = getCellFill(coord);
+      const note = annotations.notes.get(key);
+
+      // Cells are drawn around their center, one board unit per square
+      const { x, y } = cellCenter(coord, gridType);
+      const iconSize = CELL_WIDTH[gridType] * 0.8;
+
+      cells.push(
+        <g key={key} transform={`translate(${x}, ${y})`}>
+          {note !== undefined && <title>{note}</title>}
+          {gridType !== "square" ? (
+            <path
+              d={gridType === "hex" ? hexPath : isUpTriangle(coord) ? triPaths.up : triPaths.down}
+              fill={fill}
+              stroke={gridStroke}
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+              style={cursorStyle}
+              onPointerDown={(e) => handleCellPointerDown(coord, e)}
+              onPointerEnter={() => handleCellEnter(coord)}
+            />
+          ) : (
+            <rect
+              x={-0.5}
+              y={-0.5}
+              width={1}
+              height={1}
+              fill={fill}
+              stroke={gridStroke}
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+              style={cursorStyle}
+              onPointerDown={(e) => handleCellPointerDown(coord, e)}
+              onPointerEnter={() => handleCellEnter(coord)}
+            />
+          )}
+          {showCoordinates && (
+            <text
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={CELL_WIDTH[gridType] * 0.3}
+              fill={labelColor}
+              pointerEvents="none"
+            >
+              {q},{r}
+            </text>
+          )}
+          {isAngel && (
+            <image
+              aria-label="angel"
+              href={angelImage}
+              x={-iconSize / 2}
+              y={-iconSize / 2}
+              width={iconSize}
+              height={iconSize}
+              pointerEvents="none"
+            />
+          )}
+          {note !== undefined && (
+            <circle
+              cx={CELL_WIDTH[gridType] * 0.3}
+              cy={-CELL_WIDTH[gridType] * 0.3}
+              r={CELL_WIDTH[gridType] * 0.1}
+              fill={noteColor}
+              pointerEvents="none"
+            />
+          )}
+        </g>
+      );
     }
 
     return cells;
   };
 
-  const svgSize = gridSize * cellSize;
+
+  // Outline of the keyboard cursor, drawn over the cells
+  const renderKeyCursor = (coord: Coord) => {
+    const { x, y } = cellCenter(coord, gridType);
+    return (
+      <g transform={`translate(${x}, ${y})`} pointerEvents="none">
+        {gridType !== "square" ? (
+          <path
+            d={gridType === "hex" ? hexagonPath(HEX_SIZE) : trianglePaths(TRIANGLE_SIZE)[isUpTriangle(coord) ? "up" : "down"]}
+            fill="none"
+            stroke={focusStroke}
+            strokeWidth={3}
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : (
+          <rect
+            x={-0.5}
+            y={-0.5}
+            width={1}
+            height={1}
+            fill="none"
+            stroke={focusStroke}
+            strokeWidth={3}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </g>
+    );
+  };
 
   // Tailwind class helpers
   const buttonClass = `px-4 py-2 rounded font-medium transition-colors ${
@@ -593,43 +1503,678 @@ export default function AngelDevil() {
 
   const panelClass = `p-4 rounded-lg ${darkMode ? "bg-gray-800" : "bg-gray-50"}`;
 
+  // Settings controls, shared by the desktop sidebar and the mobile modal
+  const renderSettingsFields = (idSuffix: string) => (
+    <div className="space-y-4">
+      {!readOnly && (
+        <button type="button" onClick={restartGame} disabled={gameFixed} className={`${activeButtonClass} w-full disabled:opacity-50`}>
+          {puzzle ? "Restart Puzzle" : "Reset Game"}
+        </button>
+      )}
+      {!settingsLocked && !isDefaultSetup(gameSetup(positions[0])) && (
+        <button type="button" onClick={() => resetGame()} disabled={gameFixed} className={`${buttonClass} w-full disabled:opacity-50`}>
+          Empty Board
+        </button>
+      )}
+
+      <fieldset disabled={settingsLocked || gameFixed} className="space-y-4 disabled:opacity-60">
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`gridType${idSuffix}`}>
+            Grid Type
+          </label>
+          <select
+            id={`gridType${idSuffix}`}
+            value={gridType}
+            onChange={(e) => handleGridTypeChange(e.target.value as GridType)}
+            className={`${inputClass} w-full`}
+          >
+            <option value="square">Square Grid</option>
+            <option value="hex">Hexagon Grid</option>
+            <option value="triangle">Triangle Grid</option>
+          </select>
+        </div>
 
-  return (
-    <div className={`w-full min-h-screen transition-colors ${
-      darkMode ? "bg-gray-900" : "bg-white"
-    }`}>
-      {/* Header */}
-      <div className="w-full border-b px-4 py-3" style={{ borderColor: darkMode ? "#374151" : "#e5e7eb" }}>
-        <div className="max-w-7xl mx-auto flex justify-between items-center">
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`angelPower${idSuffix}`}>
+            Angel Power: {angelPower}
+          </label>
+          <input
+            id={`angelPower${idSuffix}`}
+            type="number"
+            min={1}
+            max={10}
+            value={angelPower}
+            onChange={(e) => {
+              changeSettings({ ...settings, angelPower: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) });
+            }}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`angelType${idSuffix}`}>
+            Angel Type
+          </label>
+          <select
+            id={`angelType${idSuffix}`}
+            value={angelType}
+            onChange={(e) => {
+              changeSettings({ ...settings, angelType: e.target.value as AngelType });
+            }}
+            className={`${inputClass} w-full`}
+          >
+            <option value="regular">Regular Angel</option>
+            <option value="nice">Nice Angel</option>
+            <option value="very-nice">Very Nice Angel</option>
+            <option value="fool">The Fool</option>
+            <option value="out-and-out-fool">Out-and-out Fool</option>
+          </select>
+          <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {ANGEL_TYPE_DESCRIPTIONS[angelType]}
+          </p>
+        </div>
+
+        {gridType === "square" && (
           <div>
-            <h1 className={`text-2xl font-bold ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
-              Conway&apos;s Angel Problem
-            </h1>
-            <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"} mt-1`}>
-              The Angel tries to escape indefinitely. The Devil tries to trap it by eating squares.
-            </p>
-          </div>
-          <div className="flex items-center gap-2">
-            <button
-              type="button"
-              onClick={() => setShowSettingsModal(true)}
-              className={`${buttonClass} lg:hidden`}
-            >
-              Settings
-            </button>
-            <button
-              type="button"
-              onClick={() => setDarkMode(!darkMode)}
-              className={buttonClass}
+            <label className={`${labelClass} block mb-2`} htmlFor={`metric${idSuffix}`}>
+              Move Shape
+            </label>
+            <select
+              id={`metric${idSuffix}`}
+              value={metricChoice(metric)}
+              onChange={(e) => changeSettings({ ...settings, metric: metricForChoice(e.target.value as MetricChoice) })}
+              className={`${inputClass} w-full`}
             >
-              {darkMode ? "Light" : "Dark"}
-            </button>
+              <option value="chebyshev">King (Chebyshev)</option>
+              <option value="manhattan">Manhattan</option>
+              <option value="euclidean">Euclidean Disk</option>
+              <option value="knight">Knight</option>
+              <option value="leaper">(a,b)-Leaper</option>
+            </select>
+            {metric.type === "leaper" && (
+              <div className="flex gap-2 mt-2">
+                {(["a", "b"] as const).map(field => (
+                  <input
+                    key={field}
+                    aria-label={`Leap ${field}`}
+                    type="number"
+                    min={field === "a" ? 0 : 1}
+                    max={MAX_LEAP}
+                    value={metric[field]}
+                    onChange={(e) => changeSettings({
+                      ...settings,
+                      metric: {
+                        ...metric,
+                        [field]: Math.max(field === "a" ? 0 : 1, Math.min(MAX_LEAP, parseInt(e.target.value) || 0)),
+                      },
+                    })}
+                    className={`${inputClass} w-full`}
+                  />
+                ))}
+              </div>
+            )}
+            <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+              {METRIC_DESCRIPTIONS[metric.type]}
+            </p>
           </div>
+        )}
+
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`winRule${idSuffix}`}>
+            Angel Wins By
+          </label>
+          <select
+            id={`winRule${idSuffix}`}
+            value={winRule.type}
+            onChange={(e) => {
+              const type = e.target.value as AngelWinRule["type"];
+              changeSettings({ ...settings, winRule: makeWinRule(type, WIN_RULE_DEFAULT_VALUE[type]) });
+            }}
+            className={`${inputClass} w-full`}
+          >
+            <option value="none">Surviving Forever</option>
+            <option value="survive">Surviving N Turns</option>
+            <option value="distance">Reaching a Distance</option>
+            <option value="escape">Escaping the Board</option>
+          </select>
+          {winRule.type !== "none" && (
+            <input
+              aria-label={winRule.type === "survive" ? "Turns" : winRule.type === "distance" ? "Distance" : "Board radius"}
+              type="number"
+              min={1}
+              max={1000}
+              value={winRuleValue(winRule)}
+              onChange={(e) => {
+                changeSettings({
+                  ...settings,
+                  winRule: makeWinRule(winRule.type, Math.max(1, Math.min(1000, parseInt(e.target.value) || 1))),
+                });
+              }}
+              className={`${inputClass} w-full mt-2`}
+            />
+          )}
+          <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {WIN_RULE_DESCRIPTIONS[winRule.type]}
+          </p>
         </div>
+
+        <div className="space-y-2">
+          <span className={`${labelClass} block`}>Handicaps</span>
+          {(Object.keys(TURN_RULE_LABELS) as (keyof typeof TURN_RULE_LABELS)[]).map(field => (
+            <label key={field} className={`${labelClass} flex items-center justify-between gap-2 text-sm font-normal`}>
+              {TURN_RULE_LABELS[field]}
+              <input
+                type="number"
+                min={1}
+                max={MAX_TURN_ACTIONS}
+                value={turnRules[field]}
+                onChange={(e) => changeSettings({
+                  ...settings,
+                  turnRules: { ...turnRules, [field]: Math.max(1, Math.min(MAX_TURN_ACTIONS, parseInt(e.target.value) || 1)) },
+                })}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          ))}
+          <label className={`${labelClass} block text-sm font-normal`} htmlFor={`eatShape${idSuffix}`}>
+            Eat Shape
+          </label>
+          <select
+            id={`eatShape${idSuffix}`}
+            value={turnRules.eatShape}
+            onChange={(e) => changeSettings({ ...settings, turnRules: { ...turnRules, eatShape: e.target.value as EatShape } })}
+            className={`${inputClass} w-full`}
+          >
+            <option value="single">Single Square</option>
+            <option value="plus">Plus</option>
+            <option value="block">2x2 Block</option>
+          </select>
+          <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {EAT_SHAPE_DESCRIPTIONS[turnRules.eatShape]}
+          </p>
+        </div>
+      </fieldset>
+
+      <div className="pt-2 border-t" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
+        <label className={`${labelClass} flex items-center gap-2 cursor-pointer`}>
+          <input
+            type="checkbox"
+            checked={aiEnabled}
+            onChange={(e) => setAiEnabled(e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span>Computer Angel</span>
+        </label>
+      </div>
+
+      {aiEnabled && (
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`aiStrategy${idSuffix}`}>
+            AI Strategy
+          </label>
+          <select
+            id={`aiStrategy${idSuffix}`}
+            value={aiStrategy}
+            onChange={(e) => setAiStrategy(e.target.value as AIStrategy)}
+            className={`${inputClass} w-full`}
+          >
+            <option value="random">Random</option>
+            <option value="greedy">Greedy</option>
+            <option value="lookahead">Lookahead</option>
+            <option value="mathe">Máthé Runner (power 2)</option>
+            <option value="bowditch">Bowditch Lady (power 4)</option>
+          </select>
+          <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {AI_STRATEGY_DESCRIPTIONS[aiStrategy]}
+          </p>
+        </div>
+      )}
+
+      {aiEnabled && runnerStrategy && !walker && (
+        <p className={`text-xs ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+          Outside the proof: it needs a square board and power {RUNNER_MIN_POWER[runnerStrategy]} or more,
+          so the angel plays greedy.
+        </p>
+      )}
+
+      {walker && runnerStrategy && (
+        <div className={`text-xs space-y-1 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+          <p className={`${labelClass} text-sm`}>Strategy State</p>
+          <p>
+            {runnerStrategy === "mathe" ? "Runner at corner" : "Lady at square"} {walker.runner.at.q}, {walker.runner.at.r},
+            heading {COMPASS[walker.runner.heading]}.
+          </p>
+          <p>
+            {walker.runner.following
+              ? `Following a wall on its left, ${Math.abs(walker.runner.turning) * 90}° ${walker.runner.turning > 0 ? "left" : "right"} of east.`
+              : "Heading east in the open."}
+          </p>
+          {walker.bookkeeping && (
+            <>
+              <p>
+                Blocked edges: {walker.bookkeeping.blockedEdges} in all; at the runner{" "}
+                {blockedEdgesAt(position, walker.runner.at, walker.isSpent).map(heading => COMPASS[heading]).join(", ") || "none"}.
+              </p>
+              <p>
+                Spent squares: {walker.bookkeeping.spentSquares}, which the lazy angel won&apos;t land on again.
+                The devil has wasted {walker.bookkeeping.wastedEats} eats on them, which block nothing.
+              </p>
+            </>
+          )}
+          <p>
+            {walker.runner.steps} steps since it last started over at the angel, which it has done{" "}
+            {walker.runner.restarts} times (when the angel went elsewhere or could not follow).
+          </p>
+        </div>
+      )}
+
+      {aiEnabled && aiStrategy === "lookahead" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={`${labelClass} block mb-2 text-sm`} htmlFor={`searchDepth${idSuffix}`}>
+              Depth: {searchOptions.maxDepth}
+            </label>
+            <input
+              id={`searchDepth${idSuffix}`}
+              type="number"
+              min={1}
+              max={8}
+              value={searchOptions.maxDepth}
+              onChange={(e) => setSearchOptions(prev => ({ ...prev, maxDepth: Math.max(1, Math.min(8, parseInt(e.target.value) || 1)) }))}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+          <div>
+            <label className={`${labelClass} block mb-2 text-sm`} htmlFor={`searchTime${idSuffix}`}>
+              Time (ms)
+            </label>
+            <input
+              id={`searchTime${idSuffix}`}
+              type="number"
+              min={100}
+              max={30000}
+              step={100}
+              value={searchOptions.timeBudgetMs}
+              onChange={(e) => setSearchOptions(prev => ({ ...prev, timeBudgetMs: Math.max(100, Math.min(30000, parseInt(e.target.value) || 100)) }))}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="pt-2 border-t" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
+        <label className={`${labelClass} flex items-center gap-2 cursor-pointer`}>
+          <input
+            type="checkbox"
+            checked={devilAiEnabled}
+            onChange={(e) => setDevilAiEnabled(e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span>Computer Devil</span>
+        </label>
+      </div>
+
+      {devilAiEnabled && (
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`devilStrategy${idSuffix}`}>
+            Devil Strategy
+          </label>
+          <select
+            id={`devilStrategy${idSuffix}`}
+            value={devilStrategy}
+            onChange={(e) => {
+              const strategy = e.target.value as DevilStrategy;
+              setDevilStrategy(strategy);
+              setDevilDistance(DEVIL_DEFAULT_DISTANCE[strategy]);
+            }}
+            className={`${inputClass} w-full`}
+          >
+            <option value="random">Random</option>
+            <option value="min-moves">Fewest Angel Moves</option>
+            <option value="wall">Wall Ahead</option>
+            <option value="box">Berlekamp Box</option>
+          </select>
+          <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {DEVIL_STRATEGY_DESCRIPTIONS[devilStrategy]}
+          </p>
+        </div>
+      )}
+
+      {devilAiEnabled && (devilStrategy === "wall" || devilStrategy === "box") && (
+        <div>
+          <label className={`${labelClass} block mb-2`} htmlFor={`devilDistance${idSuffix}`}>
+            {devilStrategy === "wall" ? "Wall Distance" : "Box Radius"}: {devilDistance}
+          </label>
+          <input
+            id={`devilDistance${idSuffix}`}
+            type="number"
+            min={1}
+            max={MAX_DEVIL_DISTANCE}
+            value={devilDistance}
+            onChange={(e) => setDevilDistance(Math.max(1, Math.min(MAX_DEVIL_DISTANCE, parseInt(e.target.value) || 1)))}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+      )}
+
+      {!settingsLocked && (
+        <div className="pt-2 border-t space-y-2" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
+          <label className={`${labelClass} block`} htmlFor={`puzzle${idSuffix}`}>Puzzles</label>
+          <select
+            id={`puzzle${idSuffix}`}
+            value={puzzle?.id ?? ""}
+            onChange={(e) => {
+              const next = PUZZLES.find(p => p.id === e.target.value);
+              if (next) startPuzzle(next);
+              else resetGame();
+            }}
+            disabled={gameFixed}
+            className={`${inputClass} w-full disabled:opacity-50`}
+          >
+            <option value="">Free Play</option>
+            {PUZZLES.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {puzzle && (
+            <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+              {puzzle.description}
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              setSetupDraft(gameSetup(position));
+              setShowSettingsModal(false);
+            }}
+            disabled={editing || gameFixed}
+            className={`${buttonClass} w-full disabled:opacity-50`}
+          >
+            Edit Setup
+          </button>
+        </div>
+      )}
+
+      <div className="pt-2 border-t space-y-2" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
+        <span className={`${labelClass} block`}>Highlight Layers</span>
+        {annotations.layers.map(layer => (
+          <div key={layer.id} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name={`activeLayer${idSuffix}`}
+              aria-label={`Paint on ${layer.name || "this layer"}`}
+              checked={layer.id === activeLayer.id}
+              onChange={() => setActiveLayerId(layer.id)}
+              className="w-4 h-4"
+            />
+            <input
+              type="color"
+              aria-label="Layer color"
+              value={layer.color}
+              onChange={(e) => setAnnotations(prev => updateLayer(prev, layer.id, { color: e.target.value }))}
+              className="w-8 h-8 p-0 border-0 bg-transparent cursor-pointer"
+            />
+            <input
+              type="text"
+              aria-label="Layer name"
+              value={layer.name}
+              maxLength={MAX_LAYER_NAME}
+              onChange={(e) => setAnnotations(prev => updateLayer(prev, layer.id, { name: e.target.value }))}
+              className={`${inputClass} flex-1 min-w-0 py-1`}
+            />
+            <span className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>{layer.squares.size}</span>
+            <input
+              type="checkbox"
+              aria-label="Show layer"
+              title="Show"
+              checked={layer.visible}
+              onChange={(e) => setAnnotations(prev => updateLayer(prev, layer.id, { visible: e.target.checked }))}
+              className="w-4 h-4"
+            />
+            <button
+              type="button"
+              aria-label="Delete layer"
+              title="Delete"
+              onClick={() => setAnnotations(prev => removeLayer(prev, layer.id))}
+              disabled={annotations.layers.length <= 1}
+              className={`${labelClass} px-1 disabled:opacity-30`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              const next = addLayer(annotations);
+              setAnnotations(next);
+              setActiveLayerId(next.layers[next.layers.length - 1].id);
+            }}
+            disabled={annotations.layers.length >= MAX_LAYERS}
+            className={`${buttonClass} disabled:opacity-50`}
+          >
+            Add Layer
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnnotations(prev => updateLayer(prev, activeLayer.id, { squares: new Set() }))}
+            disabled={activeLayer.squares.size === 0}
+            className={`${buttonClass} disabled:opacity-50`}
+          >
+            Clear Layer
+          </button>
+        </div>
+        {annotations.notes.size > 0 && (
+          <>
+            <span className={`${labelClass} block`}>Notes</span>
+            <ul className={`text-xs space-y-1 max-h-32 overflow-y-auto ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+              {[...annotations.notes].map(([key, text]) => (
+                <li key={key} className="flex items-start gap-2">
+                  <span className="font-mono">{key}</span>
+                  <span className="flex-1 break-words">{text}</span>
+                  <button
+                    type="button"
+                    aria-label={`Remove note at ${key}`}
+                    onClick={() => setAnnotations(prev => setNote(prev, key, ""))}
+                    className="px-1"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={() => setAnnotations(prev => ({ ...prev, notes: new Map() }))}
+              className={buttonClass}
+            >
+              Clear Notes
+            </button>
+          </>
+        )}
+        <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+          Paint on the chosen layer with the Highlight tool; pin notes with the Note tool. Layers and notes
+          are saved with the game but survive starting a new one.
+        </p>
+      </div>
+
+      {!settingsLocked && (
+        <div className="pt-2 border-t space-y-2" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
+          <label className={`${labelClass} block`} htmlFor={`netMode${idSuffix}`}>Multiplayer</label>
+          <select
+            id={`netMode${idSuffix}`}
+            value={netMode}
+            onChange={(e) => setNetMode(e.target.value as NetMode)}
+            disabled={connectedSide !== null}
+            className={`${inputClass} w-full disabled:opacity-50`}
+          >
+            <option value="hotseat">Hot Seat</option>
+            <option value="broadcast">Other Tabs</option>
+            <option value="relay">Other Devices</option>
+          </select>
+          <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {netMode === "hotseat" ? "Both sides play in this window." : TRANSPORT_DESCRIPTIONS[netMode]}
+          </p>
+          {netMode !== "hotseat" && (
+            <>
+              <div className="flex gap-2">
+                <input
+                  aria-label="Room"
+                  type="text"
+                  value={netRoom}
+                  maxLength={64}
+                  onChange={(e) => setNetRoom(e.target.value)}
+                  disabled={connectedSide !== null}
+                  className={`${inputClass} flex-1 min-w-0 disabled:opacity-50`}
+                />
+                <select
+                  aria-label="Play As"
+                  value={connectedSide ?? netSide}
+                  onChange={(e) => setNetSide(e.target.value as Turn)}
+                  disabled={connectedSide !== null}
+                  className={`${inputClass} disabled:opacity-50`}
+                >
+                  <option value="angel">Angel</option>
+                  <option value="devil">Devil</option>
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={connectedSide ? disconnect : connect}
+                disabled={!connectedSide && netRoom.trim() === ""}
+                className={`${buttonClass} w-full disabled:opacity-50`}
+              >
+                {connectedSide ? "Disconnect" : "Connect"}
+              </button>
+            </>
+          )}
+          {netStatus && (
+            <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+              {netStatus}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="pt-2 border-t space-y-2" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
+        <label className={`${labelClass} block`}>Save &amp; Share</label>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={exportGameJson} className={buttonClass}>
+            Export
+          </button>
+          {!settingsLocked && (
+            <button type="button" onClick={() => importInputRef.current?.click()} disabled={gameFixed} className={`${buttonClass} disabled:opacity-50`}>
+              Import
+            </button>
+          )}
+          <button type="button" onClick={copyGameLink} className={buttonClass}>
+            Copy Link
+          </button>
+        </div>
+        <label className={`${labelClass} flex items-center gap-2 cursor-pointer text-sm`}>
+          <input
+            type="checkbox"
+            checked={rememberGame}
+            onChange={(e) => setRememberGame(e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span>Remember Game in Progress</span>
+        </label>
+        <label className={`${labelClass} block`} htmlFor={`imageArea${idSuffix}`}>Board Image</label>
+        <select
+          id={`imageArea${idSuffix}`}
+          value={imageOptions.area}
+          onChange={(e) => setImageOptions({ ...imageOptions, area: e.target.value as ImageArea })}
+          className={`${inputClass} w-full`}
+        >
+          <option value="board">Whole Game</option>
+          <option value="viewport">Visible Area</option>
+        </select>
+        <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+          {IMAGE_AREA_DESCRIPTIONS[imageOptions.area]}
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(IMAGE_OPTION_LABELS) as (keyof typeof IMAGE_OPTION_LABELS)[]).map(option => (
+            <label key={option} className={`${labelClass} flex items-center gap-2 cursor-pointer text-sm`}>
+              <input
+                type="checkbox"
+                checked={imageOptions[option]}
+                onChange={(e) => setImageOptions({ ...imageOptions, [option]: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span>{IMAGE_OPTION_LABELS[option]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => exportImage("svg")} className={buttonClass}>
+            SVG
+          </button>
+          <button type="button" onClick={() => exportImage("png")} className={buttonClass}>
+            PNG
+          </button>
+        </div>
+        {shareMessage && (
+          <p className={`text-xs break-all ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+            {shareMessage}
+          </p>
+        )}
       </div>
+    </div>
+  );
+
+
+  return (
+    <div className={`w-full transition-colors ${className} ${
+      darkMode ? "bg-gray-900" : "bg-white"
+    }`}>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importGameJson(file);
+          e.target.value = "";
+        }}
+      />
+
+      {/* Header */}
+      {showPanel("header") && (
+        <div className="w-full border-b px-4 py-3" style={{ borderColor: darkMode ? "#374151" : "#e5e7eb" }}>
+          <div className="max-w-7xl mx-auto flex justify-between items-center">
+            <div>
+              <h1 className={`text-2xl font-bold ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                Conway&apos;s Angel Problem
+              </h1>
+              <p className={`text-xs ${darkMode ? "text-gray-400" : "text-gray-600"} mt-1`}>
+                The Angel tries to escape indefinitely. The Devil tries to trap it by eating squares.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setShowSettingsModal(true)}
+                className={`${buttonClass} lg:hidden`}
+              >
+                Settings
+              </button>
+              <button
+                type="button"
+                onClick={() => setDarkMode(!darkMode)}
+                className={buttonClass}
+              >
+                {darkMode ? "Light" : "Dark"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Settings Modal for Mobile */}
-      {showSettingsModal && (
+      {showPanel("settings") && showSettingsModal && (
         <div
           className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
           onClick={() => setShowSettingsModal(false)}
@@ -651,295 +2196,308 @@ export default function AngelDevil() {
               </button>
             </div>
 
-            <div className="space-y-4">
-              <button type="button" onClick={resetGame} className={`${activeButtonClass} w-full`}>
-                Reset Game
-              </button>
-
-              <div>
-                <label className={`${labelClass} block mb-2`}>Grid Type</label>
-                <button
-                  type="button"
-                  onClick={handleGridTypeChange}
-                  className={`${buttonClass} w-full`}
-                >
-                  {gridType === "square" ? "Square Grid" : "Hexagon Grid"}
-                </button>
-              </div>
-
-              <div>
-                <label className={`${labelClass} block mb-2`} htmlFor="angelPower">
-                  Angel Power: {angelPower}
-                </label>
-                <input
-                  id="angelPower"
-                  type="number"
-                  min={1}
-                  max={10}
-                  value={angelPower}
-                  onChange={(e) => {
-                    setAngelPower(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)));
-                    resetGame();
-                  }}
-                  className={`${inputClass} w-full`}
-                />
-              </div>
-
-              <div>
-                <label className={`${labelClass} block mb-2`} htmlFor="angelType">
-                  Angel Type
-                </label>
-                <select
-                  id="angelType"
-                  value={angelType}
-                  onChange={(e) => {
-                    setAngelType(e.target.value as AngelType);
-                    resetGame();
-                  }}
-                  className={`${inputClass} w-full`}
-                >
-                  <option value="regular">Regular Angel</option>
-                  <option value="nice">Nice Angel</option>
-                  <option value="very-nice">Very Nice Angel</option>
-                  <option value="fool">The Fool</option>
-                  <option value="out-and-out-fool">Out-and-out Fool</option>
-                </select>
-                <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  {ANGEL_TYPE_DESCRIPTIONS[angelType]}
-                </p>
-              </div>
-
-              <div className="pt-2 border-t" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
-                <label className={`${labelClass} flex items-center gap-2 cursor-pointer`}>
-                  <input
-                    type="checkbox"
-                    checked={aiEnabled}
-                    onChange={(e) => setAiEnabled(e.target.checked)}
-                    className="w-4 h-4"
-                  />
-                  <span>Computer Angel</span>
-                </label>
-              </div>
+            {renderSettingsFields("")}
+          </div>
+        </div>
+      )}
 
-              {aiEnabled && (
-                <div>
-                  <label className={`${labelClass} block mb-2`} htmlFor="aiStrategy">
-                    AI Strategy
-                  </label>
-                  <select
-                    id="aiStrategy"
-                    value={aiStrategy}
-                    onChange={(e) => setAiStrategy(e.target.value as AIStrategy)}
-                    className={`${inputClass} w-full`}
-                  >
-                    <option value="random">Random</option>
-                    <option value="greedy">Greedy</option>
-                  </select>
-                </div>
-              )}
-            </div>
+      {lastGame && (
+        <div className="max-w-7xl mx-auto px-4 lg:px-6 pt-4">
+          <div className={`${panelClass} flex flex-wrap items-center gap-2`}>
+            <span className={`${labelClass} mr-auto`}>
+              Resume the game from your last visit ({lastGame.moves.length} moves)?
+            </span>
+            <button type="button" onClick={resumeLastGame} disabled={gameFixed} className={`${activeButtonClass} disabled:opacity-50`}>
+              Resume
+            </button>
+            <button type="button" onClick={() => setLastGame(null)} className={buttonClass}>
+              Dismiss
+            </button>
           </div>
         </div>
       )}
 
       <div className="flex flex-col lg:flex-row max-w-7xl mx-auto gap-6 p-4 lg:p-6">
-        <div className="hidden lg:block flex-shrink-0 lg:w-80 space-y-4">
-          <div className={panelClass}>
-            <h2 className={`text-lg font-semibold mb-4 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
-              Game Settings
-            </h2>
-
-            <div className="space-y-4">
-              <button type="button" onClick={resetGame} className={`${activeButtonClass} w-full`}>
-                Reset Game
-              </button>
+        {(showPanel("settings") || showPanel("legend")) && (
+          <div className="hidden lg:block flex-shrink-0 lg:w-80 space-y-4">
+            {showPanel("settings") && (
+              <div className={panelClass}>
+                <h2 className={`text-lg font-semibold mb-4 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                  Game Settings
+                </h2>
+
+                {renderSettingsFields("Desktop")}
+              </div>
+            )}
+
+            {showPanel("legend") && (
+              <div className={panelClass}>
+                <h2 className={`text-lg font-semibold mb-3 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                  Legend
+                </h2>
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-5 h-5 rounded ${darkMode ? "bg-gray-700 border border-gray-500" : "bg-white border border-gray-300"}`}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Empty</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className={`w-5 h-5 rounded ${darkMode ? "bg-red-900" : "bg-red-600"}`}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Eaten</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className={`w-5 h-5 rounded ${darkMode ? "bg-cyan-900" : "bg-cyan-300"}`}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Visited</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className={`w-5 h-5 rounded`} style={{ backgroundColor: darkMode ? "#0c4a6e" : "#bae6fd" }}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Prev. Reach.</span>
+                  </div>
+                  {visibleLayers.map(layer => (
+                    <div key={layer.id} className="flex items-center gap-2">
+                      <div className={`w-5 h-5 rounded`} style={{ backgroundColor: layer.color }}></div>
+                      <span className={darkMode ? "text-gray-300" : "text-gray-700"}>{layer.name || "Highlights"}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <div className={`w-5 h-5 rounded ${darkMode ? "bg-green-900" : "bg-green-300"}`}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Valid Move</span>
+                  </div>
+                  {(winRule.type === "distance" || winRule.type === "escape") && (
+                    <div className="flex items-center gap-2">
+                      <div className={`w-5 h-5 rounded`} style={{ backgroundColor: darkMode ? "#312e81" : "#e0e7ff" }}></div>
+                      <span className={darkMode ? "text-gray-300" : "text-gray-700"}>{winRule.type === "escape" ? "Off Board" : "Goal"}</span>
+                    </div>
+                  )}
+                  {showAnalysis && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <div className={`w-5 h-5 rounded`} style={{ backgroundColor: darkMode ? "#2e1065" : "#ede9fe" }}></div>
+                        <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Reachable</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className={`w-5 h-5 rounded`} style={{ backgroundColor: darkMode ? "#374151" : "#9ca3af" }}></div>
+                        <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Dead Pocket</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className={`w-5 h-5 rounded`} style={{ backgroundColor: darkMode ? "#9a3412" : "#fb923c" }}></div>
+                        <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Seals Region</span>
+                      </div>
+                    </>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <div className={`w-5 h-5 rounded ${darkMode ? "bg-yellow-700" : "bg-orange-500"} flex items-center justify-center text-xs`}>
+                      😇
+                    </div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Angel</span>
+                  </div>
+                </div>
+                {gridType === "triangle" && (
+                  <p className={`text-xs mt-3 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                    Triangle (q,r): row r, with q counting half-triangles along it. A triangle points up when q + r is even;
+                    moves count steps across edges.
+                  </p>
+                )}
+                <p className={`text-xs mt-3 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  Keyboard: click or tab to the board. {KEYBOARD_HELP}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
 
-              <div>
-                <label className={`${labelClass} block mb-2`}>Grid Type</label>
+        <div className="flex-1 flex flex-col items-center justify-start">
+          {showPanel("tools") && (
+            <div className={`w-full mb-4 ${panelClass}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                {/* <span className={`${labelClass} font-semibold`}>Tools:</span> */}
                 <button
                   type="button"
-                  onClick={handleGridTypeChange}
-                  className={`${buttonClass} w-full`}
+                  onClick={() => setActiveTool("select")}
+                  className={clsx(
+                    "px-4 py-2 rounded-lg font-medium transition-colors",
+                    activeTool === "select" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
+                    activeTool === "select" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
+                    activeTool !== "select" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
+                    activeTool !== "select" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                  )}
                 >
-                  {gridType === "square" ? "Square Grid" : "Hexagon Grid"}
+                  Select
                 </button>
-              </div>
-
-              <div>
-                <label className={`${labelClass} block mb-2`} htmlFor="angelPowerDesktop">
-                  Angel Power: {angelPower}
+                <button
+                  type="button"
+                  onClick={() => setActiveTool("pan")}
+                  className={clsx(
+                    "px-4 py-2 rounded-lg font-medium transition-colors",
+                    activeTool === "pan" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
+                    activeTool === "pan" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
+                    activeTool !== "pan" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
+                    activeTool !== "pan" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                  )}
+                >
+                  Pan/Zoom
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setActiveTool("highlight")}
+                  className={clsx(
+                    "px-4 py-2 rounded-lg font-medium transition-colors",
+                    activeTool === "highlight" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
+                    activeTool === "highlight" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
+                    activeTool !== "highlight" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
+                    activeTool !== "highlight" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                  )}
+                >
+                  Highlight
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setActiveTool("note")}
+                  className={clsx(
+                    "px-4 py-2 rounded-lg font-medium transition-colors",
+                    activeTool === "note" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
+                    activeTool === "note" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
+                    activeTool !== "note" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
+                    activeTool !== "note" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                  )}
+                >
+                  Note
+                </button>
+                {activeTool === "highlight" && annotations.layers.length > 1 && (
+                  <select
+                    aria-label="Highlight Layer"
+                    value={activeLayer.id}
+                    onChange={(e) => setActiveLayerId(Number(e.target.value))}
+                    className={inputClass}
+                  >
+                    {annotations.layers.map(layer => (
+                      <option key={layer.id} value={layer.id}>{layer.name || "Untitled"}</option>
+                    ))}
+                  </select>
+                )}
+                <label className={`${labelClass} flex items-center gap-2 cursor-pointer ml-auto`}>
+                  <input
+                    type="checkbox"
+                    checked={showCoordinates}
+                    onChange={(e) => setShowCoordinates(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  <span>Show Coordinates</span>
                 </label>
-                <input
-                  id="angelPowerDesktop"
-                  type="number"
-                  min={1}
-                  max={10}
-                  value={angelPower}
-                  onChange={(e) => {
-                    setAngelPower(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)));
-                    resetGame();
-                  }}
-                  className={`${inputClass} w-full`}
-                />
-              </div>
-
-              <div>
-                <label className={`${labelClass} block mb-2`} htmlFor="angelTypeDesktop">
-                  Angel Type
+                <label className={`${labelClass} flex items-center gap-2 cursor-pointer`}>
+                  <input
+                    type="checkbox"
+                    checked={showAnalysis}
+                    onChange={(e) => setShowAnalysis(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  <span>Show Analysis</span>
                 </label>
-                <select
-                  id="angelTypeDesktop"
-                  value={angelType}
-                  onChange={(e) => {
-                    setAngelType(e.target.value as AngelType);
-                    resetGame();
-                  }}
-                  className={`${inputClass} w-full`}
-                >
-                  <option value="regular">Regular Angel</option>
-                  <option value="nice">Nice Angel</option>
-                  <option value="very-nice">Very Nice Angel</option>
-                  <option value="fool">The Fool</option>
-                  <option value="out-and-out-fool">Out-and-out Fool</option>
-                </select>
-                <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
-                  {ANGEL_TYPE_DESCRIPTIONS[angelType]}
-                </p>
-              </div>
-
-              <div className="pt-2 border-t" style={{ borderColor: darkMode ? "#4b5563" : "#d1d5db" }}>
                 <label className={`${labelClass} flex items-center gap-2 cursor-pointer`}>
                   <input
                     type="checkbox"
-                    checked={aiEnabled}
-                    onChange={(e) => setAiEnabled(e.target.checked)}
+                    checked={followAngel}
+                    onChange={(e) => setFollowAngel(e.target.checked)}
                     className="w-4 h-4"
                   />
-                  <span>Computer Angel</span>
+                  <span>Follow Angel</span>
                 </label>
-              </div>
-
-              {aiEnabled && (
-                <div>
-                  <label className={`${labelClass} block mb-2`} htmlFor="aiStrategyDesktop">
-                    AI Strategy
-                  </label>
+                <label className={`${labelClass} flex items-center gap-2`}>
+                  <span>Renderer</span>
                   <select
-                    id="aiStrategyDesktop"
-                    value={aiStrategy}
-                    onChange={(e) => setAiStrategy(e.target.value as AIStrategy)}
-                    className={`${inputClass} w-full`}
+                    value={renderer}
+                    onChange={(e) => setRenderer(e.target.value as Renderer)}
+                    className={inputClass}
                   >
-                    <option value="random">Random</option>
-                    <option value="greedy">Greedy</option>
+                    <option value="svg">SVG</option>
+                    <option value="canvas">Canvas</option>
                   </select>
-                </div>
-              )}
-            </div>
-          </div>
-
-          <div className={panelClass}>
-            <h2 className={`text-lg font-semibold mb-3 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
-              Legend
-            </h2>
-            <div className="grid grid-cols-2 gap-2 text-xs">
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded ${darkMode ? "bg-gray-700 border border-gray-500" : "bg-white border border-gray-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Empty</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded ${darkMode ? "bg-red-900" : "bg-red-600"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Eaten</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded ${darkMode ? "bg-cyan-900" : "bg-cyan-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Visited</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded`} style={{ backgroundColor: darkMode ? "#0c4a6e" : "#bae6fd" }}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Prev. Reach.</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded ${darkMode ? "bg-yellow-900" : "bg-yellow-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Highlighted</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded ${darkMode ? "bg-green-900" : "bg-green-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Valid Move</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className={`w-5 h-5 rounded ${darkMode ? "bg-yellow-700" : "bg-orange-500"} flex items-center justify-center text-xs`}>
-                  😇
-                </div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Angel</span>
+                </label>
               </div>
             </div>
-          </div>
-        </div>
-
-        <div className="flex-1 flex flex-col items-center justify-start">
-          <div className={`w-full mb-4 ${panelClass}`}>
-            <div className="flex flex-wrap items-center gap-3">
-              {/* <span className={`${labelClass} font-semibold`}>Tools:</span> */}
-              <button
-                type="button"
-                onClick={() => setActiveTool("select")}
-                className={clsx(
-                  "px-4 py-2 rounded-lg font-medium transition-colors",
-                  activeTool === "select" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
-                  activeTool === "select" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
-                  activeTool !== "select" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
-                  activeTool !== "select" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
-                )}
-              >
-                Select
-              </button>
-              <button
-                type="button"
-                onClick={() => setActiveTool("pan")}
-                className={clsx(
-                  "px-4 py-2 rounded-lg font-medium transition-colors",
-                  activeTool === "pan" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
-                  activeTool === "pan" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
-                  activeTool !== "pan" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
-                  activeTool !== "pan" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
-                )}
-              >
-                Pan/Zoom
-              </button>
-              <button
-                type="button"
-                onClick={() => setActiveTool("highlight")}
-                className={clsx(
-                  "px-4 py-2 rounded-lg font-medium transition-colors",
-                  activeTool === "highlight" && darkMode && "bg-blue-600 text-white hover:bg-blue-500",
-                  activeTool === "highlight" && !darkMode && "bg-blue-500 text-white hover:bg-blue-600",
-                  activeTool !== "highlight" && darkMode && "bg-gray-700 text-gray-100 hover:bg-gray-600",
-                  activeTool !== "highlight" && !darkMode && "bg-gray-200 text-gray-800 hover:bg-gray-300"
-                )}
+          )}
+
+          {noteCell && (
+            <div className={`w-full mb-4 ${panelClass}`}>
+              <form
+                className="flex flex-wrap items-center gap-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveNote();
+                }}
               >
-                Highlight
-              </button>
-              <label className={`${labelClass} flex items-center gap-2 cursor-pointer ml-auto`}>
+                <label className={`${labelClass} font-semibold`} htmlFor="noteText">
+                  Note at {noteCell.q},{noteCell.r}
+                </label>
                 <input
-                  type="checkbox"
-                  checked={showCoordinates}
-                  onChange={(e) => setShowCoordinates(e.target.checked)}
-                  className="w-4 h-4"
+                  id="noteText"
+                  type="text"
+                  value={noteDraft}
+                  maxLength={MAX_NOTE_LENGTH}
+                  onChange={(e) => setNoteDraft(e.target.value)}
+                  autoFocus
+                  className={`${inputClass} flex-1 min-w-0`}
                 />
-                <span>Show Coordinates</span>
-              </label>
+                <button type="submit" className={activeButtonClass}>
+                  {noteDraft.trim() === "" ? "Remove" : "Save"}
+                </button>
+                <button type="button" onClick={() => setNoteCell(null)} className={buttonClass}>
+                  Cancel
+                </button>
+              </form>
             </div>
-          </div>
+          )}
+
+          {setupDraft && (
+            <div className={`w-full mb-4 ${panelClass}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className={`${labelClass} font-semibold`}>Editing Setup</span>
+                <label className={`${labelClass} flex items-center gap-2`}>
+                  <span>Place</span>
+                  <select
+                    value={setupPiece}
+                    onChange={(e) => setSetupPiece(e.target.value as SetupPiece)}
+                    className={inputClass}
+                  >
+                    <option value="eaten">Eaten Squares</option>
+                    <option value="angel">Angel</option>
+                  </select>
+                </label>
+                <label className={`${labelClass} flex items-center gap-2`}>
+                  <span>To Move</span>
+                  <select
+                    value={setupDraft.firstTurn}
+                    onChange={(e) => setSetupDraft({ ...setupDraft, firstTurn: e.target.value as Turn })}
+                    className={inputClass}
+                  >
+                    <option value="angel">Angel</option>
+                    <option value="devil">Devil</option>
+                  </select>
+                </label>
+                <button type="button" onClick={() => setSetupDraft({ ...setupDraft, eatenSquares: [] })} className={buttonClass}>
+                  Clear Board
+                </button>
+                <button type="button" onClick={() => setSetupDraft(null)} className={`${buttonClass} ml-auto`}>
+                  Cancel
+                </button>
+                <button type="button" onClick={() => resetGame(settings, setupDraft)} className={activeButtonClass}>
+                  Start Play
+                </button>
+              </div>
+            </div>
+          )}
 
           <div
             ref={containerRef}
-            className={`relative overflow-hidden rounded-lg shadow-lg ${panelClass} mb-4`}
+            tabIndex={0}
+            role="application"
+            aria-roledescription="game board"
+            aria-label={`Angel board, ${TOOL_LABELS[activeTool]} tool`}
+            aria-describedby="angelBoardKeys"
+            onKeyDown={handleBoardKeyDown}
+            className={`relative overflow-hidden rounded-lg shadow-lg ${panelClass} mb-4 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500`}
             style={{
               width: "100%",
-              maxWidth: `${svgSize}px`,
               aspectRatio:"1/1",
-            //   height: `${svgSize}px`,
               touchAction: "none",
               userSelect: "none",
 
@@ -949,82 +2507,313 @@ export default function AngelDevil() {
             onPointerUp={handlePointerUp}
             onPointerCancel={handlePointerUp}
           >
-            <svg
-              ref={svgRef}
-              width="100%"
-              height="100%"
-              viewBox={`0 0 ${svgSize} ${svgSize}`}
-              style={{
-                transform: `translate(${viewOffset.x}px, ${viewOffset.y}px) scale(${zoom})`,
-                transformOrigin: "center",
-                transition: isPanning ? "none" : "transform 0.2s ease",
-              }}
-            >
-              {renderGrid()}
-            </svg>
+            {renderer === "svg" ? (
+              <svg
+                ref={svgRef}
+                width="100%"
+                height="100%"
+                viewBox={`${viewRect.x} ${viewRect.y} ${viewRect.width} ${viewRect.height}`}
+              >
+                {renderGrid()}
+                {moveAnimation?.angelPoint && (
+                  <image
+                    aria-hidden="true"
+                    href={angelImage}
+                    x={moveAnimation.angelPoint.x - CELL_WIDTH[gridType] * 0.4}
+                    y={moveAnimation.angelPoint.y - CELL_WIDTH[gridType] * 0.4}
+                    width={CELL_WIDTH[gridType] * 0.8}
+                    height={CELL_WIDTH[gridType] * 0.8}
+                    pointerEvents="none"
+                  />
+                )}
+                {keyCursor && renderKeyCursor(keyCursor)}
+              </svg>
+            ) : (
+              <CanvasBoard
+                gridType={gridType}
+                viewRect={viewRect}
+                cellFill={getCellFill}
+                notes={annotations.notes}
+                noteColor={noteColor}
+                focusCell={keyCursor}
+                focusColor={focusStroke}
+                emptyFill={emptyFill}
+                strokeColor={gridStroke}
+                labelColor={labelColor}
+                showCoordinates={showCoordinates}
+                angelPos={angelPos}
+                angelPoint={moveAnimation?.angelPoint ?? null}
+                angelImage={angelImage}
+                cursor={cellCursor}
+                onCellPointerDown={handleCellPointerDown}
+                onCellEnter={handleCellEnter}
+              />
+            )}
           </div>
-
-          <div className={`w-full ${panelClass}`} style={{ maxWidth: `${svgSize}px` }}>
-            <div className="flex flex-wrap items-center justify-between gap-4">
-              <div className={`${labelClass} text-sm`}>
-                <span className="font-semibold">Turn:</span>{" "}
-                <span className={darkMode ? "text-blue-400" : "text-blue-600"}>
-                  {currentTurn === "angel" ? (aiEnabled ? "Computer Angel" : "Angel") : "Devil"}
-                </span>
-              </div>
-              <div className={`${labelClass} text-sm`}>
-                <span className="font-semibold">Squares Eaten:</span>{" "}
-                <span className={darkMode ? "text-red-400" : "text-red-600"}>
-                  {eatenSquares.size}
-                </span>
-              </div>
-              {gameOver && (
-                <div className={`font-bold text-sm ${winner === "devil" ? "text-red-600" : "text-green-600"} px-3 py-1.5 rounded w-full text-center`}
-                  style={{ backgroundColor: winner === "devil" ? "rgba(220, 38, 38, 0.1)" : "rgba(34, 197, 94, 0.1)" }}
-                >
-                  {winner === "devil" ? "Devil Wins! Angel is trapped!" : "Angel Wins!"}
+          <p id="angelBoardKeys" className="sr-only">{KEYBOARD_HELP}</p>
+          <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+
+          {showPanel("status") && (
+            <div className={`w-full ${panelClass}`}>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className={`${labelClass} text-sm`}>
+                  <span className="font-semibold">Turn:</span>{" "}
+                  <span className={darkMode ? "text-blue-400" : "text-blue-600"}>
+                    {currentTurn === "angel"
+                      ? (aiEnabled ? (aiThinking ? "Computer Angel (thinking…)" : "Computer Angel") : "Angel")
+                      : (devilAiEnabled ? "Computer Devil" : "Devil")}
+                    {!playsSide(currentTurn) && " (opponent)"}
+                    {actionsThisTurn > 1 && ` – ${currentTurn === "angel" ? "move" : "eat"} ${actionsThisTurn - actionsLeft + 1} of ${actionsThisTurn}`}
+                  </span>
                 </div>
-              )}
-            </div>
-          </div>
-
-          <div className={`w-full mt-4 ${panelClass} lg:hidden`} style={{ maxWidth: `${svgSize}px` }}>
-            <h3 className={`text-sm font-semibold mb-2 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
-              Legend
-            </h3>
-            <div className="grid grid-cols-3 gap-2 text-xs">
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded ${darkMode ? "bg-gray-700 border border-gray-500" : "bg-white border border-gray-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Empty</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded ${darkMode ? "bg-red-900" : "bg-red-600"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Eaten</span>
+                {puzzle && !editing && (
+                  <div className={`${labelClass} text-sm w-full`}>
+                    <span className="font-semibold">{puzzle.name}:</span>{" "}
+                    {describeGoal(puzzle.goal)} as the {puzzlePlayer(puzzle)}.{" "}
+                    {puzzleProgress === "solved" && <span className="text-green-600 font-semibold">Solved!</span>}
+                    {puzzleProgress === "failed" && <span className="text-red-600 font-semibold">Failed – try again.</span>}
+                  </div>
+                )}
+                {turnRules.devilEvery > 1 && !gameOver && (
+                  <div className={`${labelClass} text-sm`}>
+                    <span className="font-semibold">Devil Plays:</span>{" "}
+                    {currentTurn === "devil" ? "now" : `after ${turnsUntilDevil} more angel turn${turnsUntilDevil === 1 ? "" : "s"}`}
+                  </div>
+                )}
+                <div className={`${labelClass} text-sm`}>
+                  <span className="font-semibold">Squares Eaten:</span>{" "}
+                  <span className={darkMode ? "text-red-400" : "text-red-600"}>
+                    {eatenSquares.size}
+                  </span>
+                </div>
+                {analysis && (
+                  <div className={`${labelClass} text-sm w-full`}>
+                    <span className="font-semibold">Region:</span>{" "}
+                    {analysis.sealed
+                      ? `sealed, ${analysis.reachable.size - 1} squares to fly around in`
+                      : analysis.sealCut === null
+                        ? "open"
+                        : `open; the devil needs ${analysis.sealCut.length} more eats to seal it`}
+                    {analysis.deadPockets.size > 0 && `. ${analysis.deadPockets.size} squares in dead pockets`}
+                  </div>
+                )}
+                {gameOver && (
+                  <div className={`font-bold text-sm ${winner === "devil" ? "text-red-600" : "text-green-600"} px-3 py-1.5 rounded w-full text-center`}
+                    style={{ backgroundColor: winner === "devil" ? "rgba(220, 38, 38, 0.1)" : "rgba(34, 197, 94, 0.1)" }}
+                  >
+                    {result && describeResult(result)}
+                  </div>
+                )}
               </div>
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded ${darkMode ? "bg-cyan-900" : "bg-cyan-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Visited</span>
+            </div>
+          )}
+
+          {showPanel("moves") && (
+            <div className={`w-full mt-4 ${panelClass}`}>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <h3 className={`text-sm font-semibold mr-auto ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                  Moves
+                </h3>
+                <button type="button" onClick={undo} disabled={cursor === 0 || connectedSide !== null} className={`${buttonClass} disabled:opacity-50`} title="Undo (Ctrl+Z)">
+                  Undo
+                </button>
+                <button type="button" onClick={redo} disabled={isLatestPosition || connectedSide !== null} className={`${buttonClass} disabled:opacity-50`} title="Redo (Ctrl+Shift+Z)">
+                  Redo
+                </button>
+                {!isLatestPosition && !readOnly && connectedSide === null && (
+                  <button type="button" onClick={continueFromHere} className={activeButtonClass}>
+                    Continue from here
+                  </button>
+                )}
               </div>
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded`} style={{ backgroundColor: darkMode ? "#0c4a6e" : "#bae6fd" }}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Prev. Reach.</span>
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                <button type="button" onClick={() => replayStep(-1)} disabled={cursor === 0} className={`${buttonClass} disabled:opacity-50`} title="Back one move">
+                  Back
+                </button>
+                <button type="button" onClick={toggleReplay} disabled={moves.length === 0} className={`${activeButtonClass} disabled:opacity-50`}>
+                  {replayPlaying ? "Pause" : isLatestPosition ? "Replay" : "Play"}
+                </button>
+                <button type="button" onClick={() => replayStep(1)} disabled={isLatestPosition} className={`${buttonClass} disabled:opacity-50`} title="Forward one move">
+                  Forward
+                </button>
+                <input
+                  type="range"
+                  aria-label="Replay position"
+                  min={0}
+                  max={positions.length - 1}
+                  value={cursor}
+                  onChange={(e) => {
+                    setCursor(Number(e.target.value));
+                    setAnimation(null);
+                  }}
+                  className="flex-1 min-w-24"
+                />
+                <span className={`${labelClass} tabular-nums`}>{cursor}/{positions.length - 1}</span>
+                <label className={`${labelClass} flex items-center gap-2 flex-1 min-w-48`}>
+                  <span>Speed</span>
+                  <input
+                    type="range"
+                    min={REPLAY_SPEED.min}
+                    max={REPLAY_SPEED.max}
+                    step={REPLAY_SPEED.step}
+                    value={replaySpeed}
+                    onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                    className="flex-1"
+                  />
+                  <span className="tabular-nums w-20 text-right">{replaySpeed} moves/s</span>
+                </label>
+                {!settingsLocked && (
+                  <button type="button" onClick={() => importInputRef.current?.click()} disabled={gameFixed} className={`${buttonClass} disabled:opacity-50`} title="Open an exported game to replay">
+                    Open…
+                  </button>
+                )}
               </div>
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded ${darkMode ? "bg-yellow-900" : "bg-yellow-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Highlight</span>
+              <div ref={moveListRef} className="relative max-h-40 overflow-y-auto font-mono text-xs">
+                <button
+                  type="button"
+                  onClick={() => setCursor(0)}
+                  className={clsx(
+                    "px-1.5 py-0.5 rounded",
+                    cursor === 0 ? "bg-blue-500 text-white" : darkMode ? "text-gray-300 hover:bg-gray-700" : "text-gray-700 hover:bg-gray-200"
+                  )}
+                >
+                  Start
+                </button>
+                {groupMovesIntoRounds(moves, positions).map(round => (
+                  <div key={round.number} className="flex items-center gap-1">
+                    <span className={`w-8 text-right ${darkMode ? "text-gray-500" : "text-gray-400"}`}>{round.number}.</span>
+                    {round.entries.map(({ move, index }) => (
+                      <button
+                        key={index}
+                        type="button"
+                        data-move-index={index}
+                        onClick={() => setCursor(index + 1)}
+                        className={clsx(
+                          "px-1.5 py-0.5 rounded",
+                          cursor === index + 1 && "bg-blue-500 text-white",
+                          cursor !== index + 1 && index >= cursor && (darkMode ? "text-gray-500 hover:bg-gray-700" : "text-gray-400 hover:bg-gray-200"),
+                          cursor !== index + 1 && index < cursor && (darkMode ? "text-gray-300 hover:bg-gray-700" : "text-gray-700 hover:bg-gray-200")
+                        )}
+                      >
+                        {moveNotation(move)}
+                      </button>
+                    ))}
+                  </div>
+                ))}
               </div>
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded ${darkMode ? "bg-green-900" : "bg-green-300"}`}></div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Valid</span>
+            </div>
+          )}
+
+          {showPanel("results") && results.length > 0 && (
+            <div className={`w-full mt-4 ${panelClass}`}>
+              <h3 className={`text-sm font-semibold mb-2 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                Results
+              </h3>
+              <ol className={`text-xs space-y-1 ${darkMode ? "text-gray-300" : "text-gray-700"}`}>
+                {results.map(({ gameId: id, settings: played, result: finished }) => (
+                  <li key={id} className="flex justify-between gap-2">
+                    <span className={finished.winner === "devil" ? "text-red-600" : "text-green-600"}>
+                      {finished.winner === "devil" ? "Devil" : "Angel"} ({finished.reason})
+                    </span>
+                    <span>
+                      {played.gridType}, power {played.angelPower}, {played.angelType}
+                      {played.gridType === "square" && `, ${metricName(played.metric)}`}
+                    </span>
+                    <span>
+                      {finished.turns} turns, {finished.squaresEaten} eaten
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {showPanel("statistics") && (
+            <div className={`w-full mt-4 ${panelClass}`}>
+              <div className="flex items-center gap-2">
+                <h3 className={`text-sm font-semibold mr-auto ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                  Statistics
+                </h3>
+                <button type="button" onClick={() => setShowStats(!showStats)} className={buttonClass}>
+                  {showStats ? "Hide" : `Show (${records?.length ?? 0} games)`}
+                </button>
               </div>
-              <div className="flex items-center gap-1">
-                <div className={`w-4 h-4 rounded ${darkMode ? "bg-yellow-700" : "bg-orange-500"} flex items-center justify-center`} style={{ fontSize: "10px" }}>
-                  😇
+              {showStats && records && (
+                <div className="mt-3">
+                  <StatsPanel records={records} darkMode={darkMode} onClear={() => setRecords([])} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {showPanel("legend") && (
+            <div className={`w-full mt-4 ${panelClass} lg:hidden`}>
+              <h3 className={`text-sm font-semibold mb-2 ${darkMode ? "text-gray-100" : "text-gray-900"}`}>
+                Legend
+              </h3>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div className="flex items-center gap-1">
+                  <div className={`w-4 h-4 rounded ${darkMode ? "bg-gray-700 border border-gray-500" : "bg-white border border-gray-300"}`}></div>
+                  <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Empty</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <div className={`w-4 h-4 rounded ${darkMode ? "bg-red-900" : "bg-red-600"}`}></div>
+                  <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Eaten</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <div className={`w-4 h-4 rounded ${darkMode ? "bg-cyan-900" : "bg-cyan-300"}`}></div>
+                  <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Visited</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <div className={`w-4 h-4 rounded`} style={{ backgroundColor: darkMode ? "#0c4a6e" : "#bae6fd" }}></div>
+                  <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Prev. Reach.</span>
+                </div>
+                {visibleLayers.map(layer => (
+                  <div key={layer.id} className="flex items-center gap-1">
+                    <div className={`w-4 h-4 rounded`} style={{ backgroundColor: layer.color }}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>{layer.name || "Highlights"}</span>
+                  </div>
+                ))}
+                <div className="flex items-center gap-1">
+                  <div className={`w-4 h-4 rounded ${darkMode ? "bg-green-900" : "bg-green-300"}`}></div>
+                  <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Valid</span>
+                </div>
+                {(winRule.type === "distance" || winRule.type === "escape") && (
+                  <div className="flex items-center gap-1">
+                    <div className={`w-4 h-4 rounded`} style={{ backgroundColor: darkMode ? "#312e81" : "#e0e7ff" }}></div>
+                    <span className={darkMode ? "text-gray-300" : "text-gray-700"}>{winRule.type === "escape" ? "Off Board" : "Goal"}</span>
+                  </div>
+                )}
+                {showAnalysis && (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <div className={`w-4 h-4 rounded`} style={{ backgroundColor: darkMode ? "#2e1065" : "#ede9fe" }}></div>
+                      <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Reachable</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <div className={`w-4 h-4 rounded`} style={{ backgroundColor: darkMode ? "#374151" : "#9ca3af" }}></div>
+                      <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Dead</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <div className={`w-4 h-4 rounded`} style={{ backgroundColor: darkMode ? "#9a3412" : "#fb923c" }}></div>
+                      <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Seals</span>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center gap-1">
+                  <div className={`w-4 h-4 rounded ${darkMode ? "bg-yellow-700" : "bg-orange-500"} flex items-center justify-center`} style={{ fontSize: "10px" }}>
+                    😇
+                  </div>
+                  <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Angel</span>
                 </div>
-                <span className={darkMode ? "text-gray-300" : "text-gray-700"}>Angel</span>
               </div>
+              {gridType === "triangle" && (
+                <p className={`text-xs mt-2 ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+                  Triangle (q,r): row r; points up when q + r is even.
+                </p>
+              )}
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,249 @@
+"use client"
+import React, { useEffect, useRef, useState } from "react";
+import { AIStrategy, AI_STRATEGIES, AI_STRATEGY_DESCRIPTIONS } from "./angel/angelAI";
+import { ANGEL_TYPES, AngelType } from "./angel/engine";
+import { GRID_TYPES, GridType } from "./angel/geometry";
+import {
+  DEFAULT_TOURNAMENT,
+  MatchupResult,
+  SCRIPTED_DEVILS,
+  SCRIPTED_DEVIL_DESCRIPTIONS,
+  ScriptedDevil,
+  TournamentConfig,
+  runMatchup,
+  tournamentMatchups,
+} from "./angel/tournament";
+
+// Angel strategy tournament: plays every selected computer Angel against the
+// scripted Devils over a grid of settings and tabulates the results. Games
+// are seeded, so the same configuration always gives the same table.
+
+const STRATEGY_LABELS: Record<AIStrategy, string> = {
+  "random": "Random",
+  "greedy": "Greedy",
+  "lookahead": "Lookahead",
+  "mathe": "Máthé Runner",
+  "bowditch": "Bowditch Lady",
+};
+
+const DEVIL_LABELS: Record<ScriptedDevil, string> = {
+  "random": "Random Eats",
+  "nearest": "Eat Nearest",
+  "fixed-wall": "Fixed Wall",
+};
+
+const GRID_LABELS: Record<GridType, string> = {
+  "square": "Square",
+  "hex": "Hex",
+  "triangle": "Triangle",
+};
+
+const ANGEL_TYPE_LABELS: Record<AngelType, string> = {
+  "regular": "Regular",
+  "nice": "Nice",
+  "very-nice": "Very Nice",
+  "fool": "Fool",
+  "out-and-out-fool": "Out-and-out Fool",
+};
+
+// Selected values of a checkbox group, in the group's own order
+const toggleValue = <T,>(all: readonly T[], selected: T[], value: T): T[] =>
+  all.filter(item => (item === value ? !selected.includes(item) : selected.includes(item)));
+
+const parsePowers = (text: string): number[] =>
+  [...new Set(text.split(/[\s,]+/).map(Number).filter(n => Number.isInteger(n) && n >= 1 && n <= 10))]
+    .sort((a, b) => a - b);
+
+export default function AngelTournament() {
+  const [config, setConfig] = useState<TournamentConfig>(DEFAULT_TOURNAMENT);
+  const [powersText, setPowersText] = useState(DEFAULT_TOURNAMENT.powers.join(", "));
+  const [results, setResults] = useState<MatchupResult[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [running, setRunning] = useState(false);
+  // Bumped to cancel a running tournament
+  const runIdRef = useRef(0);
+
+  useEffect(() => {
+    const runs = runIdRef;
+    return () => { runs.current++; };
+  }, []);
+
+  const matchupCount = tournamentMatchups(config).length;
+
+  // Play one matchup per tick so the page stays responsive
+  const run = () => {
+    const runId = ++runIdRef.current;
+    const matchups = tournamentMatchups(config);
+    setResults([]);
+    setProgress({ done: 0, total: matchups.length });
+    setRunning(true);
+
+    const step = (index: number) => {
+      if (runIdRef.current !== runId) return;
+      if (index >= matchups.length) {
+        setRunning(false);
+        return;
+      }
+      const result = runMatchup(matchups[index], config);
+      setResults(prev => [...prev, result]);
+      setProgress({ done: index + 1, total: matchups.length });
+      setTimeout(() => step(index + 1), 0);
+    };
+    setTimeout(() => step(0), 0);
+  };
+
+  const stop = () => {
+    runIdRef.current++;
+    setRunning(false);
+  };
+
+  const updateNumber = (field: "gamesPerMatchup" | "maxTurns" | "wallRadius" | "searchDepth" | "seed", max: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Math.max(field === "seed" ? 0 : 1, Math.min(max, parseInt(e.target.value) || 0));
+      setConfig(prev => ({ ...prev, [field]: value }));
+    };
+
+  const buttonClass = "px-4 py-2 rounded font-medium transition-colors bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50";
+  const activeButtonClass = "px-4 py-2 rounded font-medium transition-colors bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50";
+  const inputClass = "px-3 py-2 rounded border bg-white border-gray-300 text-gray-900";
+  const labelClass = "font-medium text-gray-700";
+  const panelClass = "p-4 rounded-lg bg-gray-50";
+
+  const renderCheckboxes = <T extends string,>(
+    title: string,
+    all: readonly T[],
+    selected: T[],
+    labels: Record<T, string>,
+    onChange: (next: T[]) => void,
+    descriptions?: Record<T, string>
+  ) => (
+    <fieldset className="space-y-1">
+      <legend className={`${labelClass} mb-1`}>{title}</legend>
+      {all.map(value => (
+        <label key={value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer" title={descriptions?.[value]}>
+          <input
+            type="checkbox"
+            checked={selected.includes(value)}
+            onChange={() => onChange(toggleValue(all, selected, value))}
+            disabled={running}
+            className="w-4 h-4"
+          />
+          {labels[value]}
+        </label>
+      ))}
+    </fieldset>
+  );
+
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900 p-4 space-y-4">
+      <h1 className="text-2xl font-bold">Angel Strategy Tournament</h1>
+
+      <div className={`${panelClass} grid gap-4 sm:grid-cols-2 lg:grid-cols-5`}>
+        {renderCheckboxes("Angel Strategies", AI_STRATEGIES, config.angelStrategies, STRATEGY_LABELS,
+          angelStrategies => setConfig(prev => ({ ...prev, angelStrategies })), AI_STRATEGY_DESCRIPTIONS)}
+        {renderCheckboxes("Devils", SCRIPTED_DEVILS, config.devils, DEVIL_LABELS,
+          devils => setConfig(prev => ({ ...prev, devils })), SCRIPTED_DEVIL_DESCRIPTIONS)}
+        {renderCheckboxes("Grids", GRID_TYPES, config.gridTypes, GRID_LABELS,
+          gridTypes => setConfig(prev => ({ ...prev, gridTypes })))}
+        {renderCheckboxes("Angel Types", ANGEL_TYPES, config.angelTypes, ANGEL_TYPE_LABELS,
+          angelTypes => setConfig(prev => ({ ...prev, angelTypes })))}
+
+        <div className="space-y-2">
+          <label className={`${labelClass} block text-sm`}>
+            Powers
+            <input
+              value={powersText}
+              onChange={(e) => {
+                setPowersText(e.target.value);
+                setConfig(prev => ({ ...prev, powers: parsePowers(e.target.value) }));
+              }}
+              disabled={running}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+          <label className={`${labelClass} block text-sm`}>
+            Games per Matchup
+            <input type="number" min={1} max={1000} value={config.gamesPerMatchup}
+              onChange={updateNumber("gamesPerMatchup", 1000)} disabled={running} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className={`${labelClass} block text-sm`}>
+            Turn Limit (Angel Wins)
+            <input type="number" min={1} max={1000} value={config.maxTurns}
+              onChange={updateNumber("maxTurns", 1000)} disabled={running} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className={`${labelClass} block text-sm`}>
+            Fixed Wall Radius
+            <input type="number" min={1} max={100} value={config.wallRadius}
+              onChange={updateNumber("wallRadius", 100)} disabled={running} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className={`${labelClass} block text-sm`}>
+            Lookahead Depth
+            <input type="number" min={1} max={4} value={config.searchDepth}
+              onChange={updateNumber("searchDepth", 4)} disabled={running} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className={`${labelClass} block text-sm`}>
+            Seed
+            <input type="number" min={0} value={config.seed}
+              onChange={updateNumber("seed", 2 ** 31 - 1)} disabled={running} className={`${inputClass} w-full mt-1`} />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={run} disabled={running || matchupCount === 0} className={activeButtonClass}>
+          Run {matchupCount} Matchups
+        </button>
+        <button type="button" onClick={stop} disabled={!running} className={buttonClass}>
+          Stop
+        </button>
+        {progress.total > 0 && (
+          <span className="text-sm text-gray-600">
+            {progress.done} / {progress.total} matchups played
+          </span>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr className="bg-gray-100 text-left">
+                <th className="p-2">Angel</th>
+                <th className="p-2">Devil</th>
+                <th className="p-2">Grid</th>
+                <th className="p-2">Power</th>
+                <th className="p-2">Angel Type</th>
+                <th className="p-2 text-right">Games</th>
+                <th className="p-2 text-right">Angel Win Rate</th>
+                <th className="p-2 text-right">Mean Length</th>
+                <th className="p-2 text-right">Eaten Until Trapped</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => (
+                <tr
+                  key={`${result.angelStrategy}/${result.devil}/${result.settings.gridType}/${result.settings.angelPower}/${result.settings.angelType}`}
+                  className="border-t border-gray-200"
+                >
+                  <td className="p-2">{STRATEGY_LABELS[result.angelStrategy]}</td>
+                  <td className="p-2">{DEVIL_LABELS[result.devil]}</td>
+                  <td className="p-2">{GRID_LABELS[result.settings.gridType]}</td>
+                  <td className="p-2">{result.settings.angelPower}</td>
+                  <td className="p-2">{ANGEL_TYPE_LABELS[result.settings.angelType]}</td>
+                  <td className="p-2 text-right">{result.games}</td>
+                  <td className="p-2 text-right">{percent(result.angelWins / result.games)}</td>
+                  <td className="p-2 text-right">{result.meanTurns.toFixed(1)}</td>
+                  <td className="p-2 text-right">
+                    {result.meanEatenWhenTrapped === null ? "–" : result.meanEatenWhenTrapped.toFixed(1)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
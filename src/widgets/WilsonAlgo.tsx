@@ -1,46 +1,185 @@
 "use client"
 
 import { useState, useEffect, useRef } from "react"
-import { Cell, Maze, wilsonsAlgorithm } from "./wilson"
+import { Maze, MazeStep, renderMaze } from "./wilson"
+import {
+    MAZE_ALGORITHMS,
+    MAZE_ALGORITHM_DESCRIPTIONS,
+    MAZE_ALGORITHM_LABELS,
+    MAZE_GENERATORS,
+    MazeAlgorithm,
+} from "./mazeGenerators"
+import { MazePlayer, generateMaze, renderStep } from "./mazePlayer"
 
-export function WilsonMaze(){
+// How long a finished maze stays up before the next one starts
+const FINISHED_PAUSE = 5000
+
+const STEP_LABELS: Record<MazeStep["type"], string> = {
+    "walk": "Walk",
+    "loop-erased": "Loop erased",
+    "carve": "Carve",
+    "path-committed": "Path committed",
+    "done": "Done",
+}
+
+interface MazePanelProps {
+    initialAlgorithm: MazeAlgorithm
+    mazeSize: number
+    stepTime: number
+}
+
+function MazePanel({ initialAlgorithm, mazeSize, stepTime }: MazePanelProps){
     const canvasRef = useRef<HTMLCanvasElement>(null)
-    const [stepTime, setStepTime] = useState(100)
+    const playerRef = useRef<MazePlayer | null>(null)
+    const stepTimeRef = useRef(stepTime)
+    const pausedRef = useRef(false)
+    const [algorithm, setAlgorithm] = useState<MazeAlgorithm>(initialAlgorithm)
+    const [paused, setPaused] = useState(false)
+    const [round, setRound] = useState(0) // bumped for each new maze
+    const [lastStep, setLastStep] = useState<MazeStep | null>(null)
+    const [lastSteps, setLastSteps] = useState<number | null>(null)
+    const [headlessMs, setHeadlessMs] = useState<number | null>(null)
 
-    const [mazeSize, setMazeSize] = useState(7)
+    useEffect(() => {
+        stepTimeRef.current = stepTime
+        if (playerRef.current) playerRef.current.stepTime = stepTime
+    }, [stepTime])
+
+    // Time the algorithm on its own, with no drawing or waiting
+    useEffect(() => {
+        const started = performance.now()
+        generateMaze(new Maze(mazeSize, mazeSize, true), MAZE_GENERATORS[algorithm])
+        setHeadlessMs(performance.now() - started)
+    }, [algorithm, mazeSize])
 
     useEffect(() => {
-        const controller = new AbortController()
-        const {signal:cancelSignal} = controller 
         const canvas = canvasRef.current; 
         if (!canvas) return; 
         const ctx = canvas.getContext('2d')
         if (!ctx) return; 
 
-        const generateMaze = async () => {
-            while (!cancelSignal.aborted){
-                const maze = new Maze(mazeSize, mazeSize, true)
-                try {
-                    const staken = await wilsonsAlgorithm(maze, ctx, cancelSignal, stepTime)
-                    console.log(staken)
-                } catch (e:unknown){
-                    if (e instanceof Error && e.message.includes('aborted')){
-                        continue
-                    }
-                    throw e;
-                }
+        const maze = new Maze(mazeSize, mazeSize, true)
+        let restart: ReturnType<typeof setTimeout> | undefined
+        const player = new MazePlayer(MAZE_GENERATORS[algorithm](maze), (step) => {
+            renderStep(maze, step, ctx)
+            setLastStep(step)
+            if (step.type !== "done") return
+            setLastSteps(step.steps)
+            if (!pausedRef.current){
+                restart = setTimeout(() => setRound((r) => r + 1), FINISHED_PAUSE)
             }
-        }
-        generateMaze()
+        }, stepTimeRef.current)
+        playerRef.current = player
+        setLastStep(null)
+        renderMaze(maze, null, [], ctx)
+        if (!pausedRef.current) player.play()
+
         return () => {
-            controller.abort()
+            player.pause()
+            clearTimeout(restart)
         }
 
-    }, [stepTime, mazeSize])
+    }, [algorithm, mazeSize, round])
+
+    const setPausedBoth = (value: boolean) => {
+        pausedRef.current = value
+        setPaused(value)
+    }
+
+    const togglePlay = () => {
+        const player = playerRef.current
+        if (!player) return
+        if (!paused){
+            setPausedBoth(true)
+            player.pause()
+        } else {
+            setPausedBoth(false)
+            if (player.finished) setRound((r) => r + 1)
+            else player.play()
+        }
+    }
+
+    const stepOnce = () => {
+        const player = playerRef.current
+        if (!player) return
+        setPausedBoth(true)
+        player.pause()
+        if (player.finished) setRound((r) => r + 1)
+        else player.step()
+    }
+
+    const buttonClass = "px-2 py-1 rounded border border-gray-300 bg-white text-gray-900"
 
     return (
-        <div className="w-full justify-center">
+        <div className="flex flex-col gap-2 w-[400px]">
+            <select
+                value={algorithm}
+                onChange={(e) => setAlgorithm(e.target.value as MazeAlgorithm)}
+                className={buttonClass}
+            >
+                {MAZE_ALGORITHMS.map((option) => (
+                    <option key={option} value={option}>{MAZE_ALGORITHM_LABELS[option]}</option>
+                ))}
+            </select>
             <canvas ref={canvasRef} width={400} height={400} />
+            <div className="flex flex-wrap gap-2 text-sm">
+                <button type="button" onClick={togglePlay} className={buttonClass}>
+                    {paused ? "Play" : "Pause"}
+                </button>
+                <button type="button" onClick={stepOnce} className={buttonClass}>Step</button>
+                <button type="button" onClick={() => playerRef.current?.fastForward()} className={buttonClass}>
+                    Fast Forward
+                </button>
+                <button type="button" onClick={() => setRound((r) => r + 1)} className={buttonClass}>
+                    New Maze
+                </button>
+                <span className="ml-auto self-center text-gray-600">
+                    {lastStep ? STEP_LABELS[lastStep.type] : "Ready"}
+                </span>
+            </div>
+            <p className="text-sm text-gray-600">{MAZE_ALGORITHM_DESCRIPTIONS[algorithm]}</p>
+            <p className="text-sm">
+                {lastSteps === null ? "No maze finished yet" : `Last maze: ${lastSteps} steps`}
+                {headlessMs !== null && ` · ${headlessMs.toFixed(1)}ms to generate without drawing`}
+            </p>
+        </div>
+    )
+}
+
+export function WilsonMaze(){
+    const [stepTime, setStepTime] = useState(100)
+
+    const [mazeSize, setMazeSize] = useState(7)
+
+    return (
+        <div className="w-full flex flex-col items-center gap-4 p-4">
+            <div className="flex flex-wrap items-center gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                    <span>Maze Size: {mazeSize}</span>
+                    <input
+                        type="range"
+                        min={3}
+                        max={30}
+                        value={mazeSize}
+                        onChange={(e) => setMazeSize(Number(e.target.value))}
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span>Step Time: {stepTime}ms</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={500}
+                        step={10}
+                        value={stepTime}
+                        onChange={(e) => setStepTime(Number(e.target.value))}
+                    />
+                </label>
+            </div>
+            <div className="flex flex-wrap justify-center gap-6">
+                <MazePanel initialAlgorithm="wilson" mazeSize={mazeSize} stepTime={stepTime} />
+                <MazePanel initialAlgorithm="backtracker" mazeSize={mazeSize} stepTime={stepTime} />
+            </div>
         </div>
     )
-}
\ No newline at end of file
+}
@@ -0,0 +1,249 @@
+"use client"
+import React, { useEffect, useRef, useState } from "react";
+import {
+  CELL_WIDTH,
+  Coord,
+  GridType,
+  HEX_SIZE,
+  Rect,
+  TRIANGLE_SIZE,
+  cellCenter,
+  coordKey,
+  getCellsInRect,
+  pointToCell,
+  sameCoord,
+  triangleCorners,
+} from "./geometry";
+
+// Canvas renderer for the Angel board. Draws only the visible window and
+// hit-tests pointer events back to cells, so it stays fast on large views
+// where the SVG renderer would create thousands of elements.
+
+interface CanvasBoardProps {
+  gridType: GridType;
+  viewRect: Rect; // visible window in board units
+  cellFill: (coord: Coord) => string;
+  notes: ReadonlyMap<string, string>; // coord key -> text; marked with a dot
+  noteColor: string;
+  focusCell: Coord | null; // keyboard cursor, outlined
+  focusColor: string;
+  emptyFill: string; // fill of an unmarked cell, painted as the background
+  strokeColor: string;
+  labelColor: string;
+  showCoordinates: boolean;
+  angelPos: Coord;
+  angelPoint: { x: number; y: number } | null; // drawn here instead while it glides between squares
+  angelImage: string;
+  cursor: string;
+  onCellPointerDown: (coord: Coord, e: React.PointerEvent) => void;
+  onCellEnter: (coord: Coord) => void;
+}
+
+// Below these on-screen sizes (CSS px per board unit) grid lines and
+// coordinate labels are skipped; they would only blur into noise
+const MIN_GRID_LINE_SCALE = 4;
+const MIN_LABEL_SCALE = 20;
+
+const traceHexagon = (ctx: CanvasRenderingContext2D | Path2D, cx: number, cy: number) => {
+  for (let i = 0; i < 6; i++) {
+    const angle = (Math.PI / 3) * i;
+    const x = cx + HEX_SIZE * Math.cos(angle);
+    const y = cy + HEX_SIZE * Math.sin(angle);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.closePath();
+};
+
+const traceTriangle = (ctx: CanvasRenderingContext2D | Path2D, coord: Coord, cx: number, cy: number) => {
+  triangleCorners(coord, TRIANGLE_SIZE).forEach(({ x, y }, i) => {
+    if (i === 0) ctx.moveTo(cx + x, cy + y);
+    else ctx.lineTo(cx + x, cy + y);
+  });
+  ctx.closePath();
+};
+
+export default function CanvasBoard({
+  gridType,
+  viewRect,
+  cellFill,
+  notes,
+  noteColor,
+  focusCell,
+  focusColor,
+  emptyFill,
+  strokeColor,
+  labelColor,
+  showCoordinates,
+  angelPos,
+  angelPoint,
+  angelImage,
+  cursor,
+  onCellPointerDown,
+  onCellEnter,
+}: CanvasBoardProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const hoveredCellRef = useRef<Coord | null>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  // Bumped when the angel image finishes loading, to trigger a redraw
+  const [, setImageVersion] = useState(0);
+
+  // Match the backing store to the element size (Hi-DPI aware)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => {
+      const dpr = window.devicePixelRatio || 1;
+      setCanvasSize({
+        width: Math.round(canvas.clientWidth * dpr),
+        height: Math.round(canvas.clientHeight * dpr),
+      });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => setImageVersion(n => n + 1);
+    image.src = angelImage;
+    imageRef.current = image;
+  }, [angelImage]);
+
+  // Redraw on the next frame whenever anything changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || canvasSize.width === 0) return;
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      if (canvas.width !== canvasSize.width) canvas.width = canvasSize.width;
+      if (canvas.height !== canvasSize.height) canvas.height = canvasSize.height;
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = emptyFill;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      // Device pixels per board unit
+      const scale = canvas.width / viewRect.width;
+      const cssScale = scale / (window.devicePixelRatio || 1);
+      ctx.setTransform(scale, 0, 0, scale, -viewRect.x * scale, -viewRect.y * scale);
+
+      const cells = getCellsInRect(viewRect, gridType);
+      for (const coord of cells) {
+        const fill = cellFill(coord);
+        if (fill === emptyFill) continue;
+        const { x, y } = cellCenter(coord, gridType);
+        ctx.fillStyle = fill;
+        if (gridType === "hex") {
+          ctx.beginPath();
+          traceHexagon(ctx, x, y);
+          ctx.fill();
+        } else if (gridType === "triangle") {
+          ctx.beginPath();
+          traceTriangle(ctx, coord, x, y);
+          ctx.fill();
+        } else {
+          ctx.fillRect(x - 0.5, y - 0.5, 1, 1);
+        }
+      }
+
+      if (cssScale >= MIN_GRID_LINE_SCALE) {
+        ctx.strokeStyle = strokeColor;
+        ctx.lineWidth = 1 / cssScale;
+        ctx.beginPath();
+        if (gridType === "hex" || gridType === "triangle") {
+          for (const coord of cells) {
+            const { x, y } = cellCenter(coord, gridType);
+            if (gridType === "hex") traceHexagon(ctx, x, y);
+            else traceTriangle(ctx, coord, x, y);
+          }
+        } else {
+          for (let q = Math.floor(viewRect.x) - 0.5; q <= viewRect.x + viewRect.width + 1; q++) {
+            ctx.moveTo(q, viewRect.y - 1);
+            ctx.lineTo(q, viewRect.y + viewRect.height + 1);
+          }
+          for (let r = Math.floor(viewRect.y) - 0.5; r <= viewRect.y + viewRect.height + 1; r++) {
+            ctx.moveTo(viewRect.x - 1, r);
+            ctx.lineTo(viewRect.x + viewRect.width + 1, r);
+          }
+        }
+        ctx.stroke();
+      }
+
+      const cellWidth = CELL_WIDTH[gridType];
+      const image = imageRef.current;
+      if (image && image.complete && image.naturalWidth > 0) {
+        const { x, y } = angelPoint ?? cellCenter(angelPos, gridType);
+        const size = cellWidth * 0.8;
+        ctx.drawImage(image, x - size / 2, y - size / 2, size, size);
+      }
+
+      ctx.fillStyle = noteColor;
+      for (const coord of cells) {
+        if (!notes.has(coordKey(coord))) continue;
+        const { x, y } = cellCenter(coord, gridType);
+        ctx.beginPath();
+        ctx.arc(x + cellWidth * 0.3, y - cellWidth * 0.3, cellWidth * 0.1, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+
+      if (focusCell) {
+        const { x, y } = cellCenter(focusCell, gridType);
+        ctx.strokeStyle = focusColor;
+        ctx.lineWidth = 3 / cssScale;
+        ctx.beginPath();
+        if (gridType === "hex") traceHexagon(ctx, x, y);
+        else if (gridType === "triangle") traceTriangle(ctx, focusCell, x, y);
+        else ctx.rect(x - 0.5, y - 0.5, 1, 1);
+        ctx.stroke();
+      }
+
+      // Labels are drawn in device pixels; tiny fonts under a large
+      // transform render poorly in some browsers
+      if (showCoordinates && cssScale >= MIN_LABEL_SCALE) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = labelColor;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.font = `${cellWidth * 0.3 * scale}px sans-serif`;
+        for (const coord of cells) {
+          const { x, y } = cellCenter(coord, gridType);
+          ctx.fillText(`${coord.q},${coord.r}`, (x - viewRect.x) * scale, (y - viewRect.y) * scale);
+        }
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  // Board coordinates of a pointer event
+  const eventToCell = (e: React.PointerEvent): Coord => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = viewRect.x + ((e.clientX - rect.left) / rect.width) * viewRect.width;
+    const y = viewRect.y + ((e.clientY - rect.top) / rect.height) * viewRect.height;
+    return pointToCell(x, y, gridType);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const coord = eventToCell(e);
+    if (hoveredCellRef.current && sameCoord(hoveredCellRef.current, coord)) return;
+    hoveredCellRef.current = coord;
+    onCellEnter(coord);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="block w-full h-full"
+      style={{ cursor }}
+      onPointerDown={(e) => {
+        const coord = eventToCell(e);
+        hoveredCellRef.current = coord;
+        onCellPointerDown(coord, e);
+      }}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => { hoveredCellRef.current = null; }}
+    />
+  );
+}
@@ -0,0 +1,270 @@
+"use client"
+import React, { useMemo, useState } from "react";
+import { AngelType } from "./engine";
+import { GRID_TYPES, GridType, cellCorners, parseCoordKey } from "./geometry";
+import {
+  GameGroup,
+  GameRecord,
+  HeatMapKind,
+  PlayerFilter,
+  filterRecords,
+  groupRecords,
+  heatMap,
+  lengthSummary,
+  survivalCurve,
+} from "./stats";
+
+// Statistics over the finished games stored in this browser: heat maps of
+// traps and eats, game lengths per kind of game, and survival curves
+
+interface StatsPanelProps {
+  records: readonly GameRecord[];
+  darkMode: boolean;
+  onClear: () => void;
+}
+
+const GRID_LABELS: Record<GridType, string> = {
+  "square": "Square",
+  "hex": "Hex",
+  "triangle": "Triangle",
+};
+
+const ANGEL_TYPE_LABELS: Record<AngelType, string> = {
+  "regular": "Regular",
+  "nice": "Nice",
+  "very-nice": "Very Nice",
+  "fool": "Fool",
+  "out-and-out-fool": "Out-and-out Fool",
+};
+
+const PLAYER_FILTER_LABELS: Record<PlayerFilter, string> = {
+  "all": "Anyone",
+  "human": "Human",
+  "computer": "Computer",
+  "remote": "Remote Player",
+};
+
+const HEAT_COLORS: Record<HeatMapKind, string> = {
+  "trapped": "#7c3aed",
+  "eaten": "#dc2626",
+};
+
+// Line colors of the survival curves, one per group
+const CURVE_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+const MAX_CURVES = CURVE_COLORS.length;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_MARGIN = 28;
+
+const groupLabel = (group: GameGroup) =>
+  `${GRID_LABELS[group.gridType]} · ${ANGEL_TYPE_LABELS[group.angelType]} · power ${group.angelPower}`;
+
+export default function StatsPanel({ records, darkMode, onClear }: StatsPanelProps) {
+  const [angelFilter, setAngelFilter] = useState<PlayerFilter>("all");
+  const [devilFilter, setDevilFilter] = useState<PlayerFilter>("all");
+  const [heatGrid, setHeatGrid] = useState<GridType>("square");
+  const [heatKind, setHeatKind] = useState<HeatMapKind>("eaten");
+
+  const games = useMemo(() => filterRecords(records, angelFilter, devilFilter), [records, angelFilter, devilFilter]);
+  const groups = useMemo(() => groupRecords(games), [games]);
+  const heat = useMemo(() => heatMap(games, heatGrid, heatKind), [games, heatGrid, heatKind]);
+
+  const labelClass = darkMode ? "text-gray-300" : "text-gray-700";
+  const mutedClass = darkMode ? "text-gray-400" : "text-gray-500";
+  const inputClass = `px-2 py-1 rounded border ${
+    darkMode ? "bg-gray-700 border-gray-600 text-gray-100" : "bg-white border-gray-300 text-gray-900"
+  }`;
+  const axisColor = darkMode ? "#6b7280" : "#9ca3af";
+
+  const renderHeatMap = () => {
+    if (heat.size === 0) {
+      return <p className={`text-xs ${mutedClass}`}>No {heatKind === "eaten" ? "eats" : "traps"} on this grid yet.</p>;
+    }
+    const maxCount = Math.max(...heat.values());
+    const cells = [...heat].map(([key, count]) => ({ key, count, corners: cellCorners(parseCoordKey(key), heatGrid) }));
+    // Frame the counted cells and the origin
+    const xs = [0, ...cells.flatMap(cell => cell.corners.map(c => c.x))];
+    const ys = [0, ...cells.flatMap(cell => cell.corners.map(c => c.y))];
+    const minX = Math.min(...xs) - 1;
+    const minY = Math.min(...ys) - 1;
+    const width = Math.max(...xs) + 1 - minX;
+    const height = Math.max(...ys) + 1 - minY;
+    return (
+      <svg
+        viewBox={`${minX} ${minY} ${width} ${height}`}
+        className="w-full max-h-80"
+        role="img"
+        aria-label={`Heat map of ${heatKind === "eaten" ? "eaten squares" : "trap positions"}, up to ${maxCount} per cell`}
+      >
+        <rect x={minX} y={minY} width={width} height={height} fill={darkMode ? "#1a1a1a" : "#ffffff"} />
+        {cells.map(({ key, count, corners }) => (
+          <polygon
+            key={key}
+            points={corners.map(c => `${c.x},${c.y}`).join(" ")}
+            fill={HEAT_COLORS[heatKind]}
+            fillOpacity={0.15 + 0.85 * (count / maxCount)}
+          >
+            <title>{`${key}: ${count}`}</title>
+          </polygon>
+        ))}
+        <circle cx={0} cy={0} r={0.12} fill={darkMode ? "#f9fafb" : "#111827"}>
+          <title>Origin</title>
+        </circle>
+      </svg>
+    );
+  };
+
+  const renderSurvival = () => {
+    const shown = groups.slice(0, MAX_CURVES);
+    const curves = shown.map(group => survivalCurve(group.records));
+    const maxTurns = Math.max(1, ...curves.map(curve => curve[curve.length - 1].turns));
+    const plotWidth = CHART_WIDTH - 2 * CHART_MARGIN;
+    const plotHeight = CHART_HEIGHT - 2 * CHART_MARGIN;
+    const px = (turns: number) => CHART_MARGIN + (turns / maxTurns) * plotWidth;
+    const py = (surviving: number) => CHART_MARGIN + (1 - surviving) * plotHeight;
+    // Step function: the chance only drops at a trap
+    const path = (curve: { turns: number; surviving: number }[]) =>
+      curve.map((point, i) =>
+        i === 0
+          ? `M${px(point.turns)},${py(point.surviving)}`
+          : `H${px(point.turns)} V${py(point.surviving)}`
+      ).join(" ");
+
+    return (
+      <>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label="Survival curves">
+          <path
+            d={`M${CHART_MARGIN},${CHART_MARGIN} V${CHART_HEIGHT - CHART_MARGIN} H${CHART_WIDTH - CHART_MARGIN}`}
+            fill="none"
+            stroke={axisColor}
+          />
+          <text x={CHART_MARGIN - 4} y={CHART_MARGIN} fontSize={9} textAnchor="end" dominantBaseline="middle" fill={axisColor}>100%</text>
+          <text x={CHART_MARGIN - 4} y={CHART_HEIGHT - CHART_MARGIN} fontSize={9} textAnchor="end" dominantBaseline="middle" fill={axisColor}>0%</text>
+          <text x={CHART_MARGIN} y={CHART_HEIGHT - CHART_MARGIN + 12} fontSize={9} textAnchor="middle" fill={axisColor}>0</text>
+          <text x={CHART_WIDTH - CHART_MARGIN} y={CHART_HEIGHT - CHART_MARGIN + 12} fontSize={9} textAnchor="middle" fill={axisColor}>{maxTurns}</text>
+          <text x={CHART_WIDTH / 2} y={CHART_HEIGHT - 4} fontSize={9} textAnchor="middle" fill={axisColor}>angel turns</text>
+          {curves.map((curve, i) => (
+            <path key={shown[i].key} d={path(curve)} fill="none" stroke={CURVE_COLORS[i]} strokeWidth={1.5} />
+          ))}
+        </svg>
+        <ul className="text-xs space-y-0.5">
+          {shown.map((group, i) => (
+            <li key={group.key} className="flex items-center gap-2">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: CURVE_COLORS[i] }}></span>
+              <span className={labelClass}>{groupLabel(group)}</span>
+            </li>
+          ))}
+        </ul>
+        {groups.length > MAX_CURVES && (
+          <p className={`text-xs ${mutedClass}`}>Showing the first {MAX_CURVES} of {groups.length} kinds of game.</p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className={`${labelClass} flex items-center gap-2`}>
+          <span>Angel</span>
+          <select value={angelFilter} onChange={(e) => setAngelFilter(e.target.value as PlayerFilter)} className={inputClass}>
+            {(Object.keys(PLAYER_FILTER_LABELS) as PlayerFilter[]).map(filter => (
+              <option key={filter} value={filter}>{PLAYER_FILTER_LABELS[filter]}</option>
+            ))}
+          </select>
+        </label>
+        <label className={`${labelClass} flex items-center gap-2`}>
+          <span>Devil</span>
+          <select value={devilFilter} onChange={(e) => setDevilFilter(e.target.value as PlayerFilter)} className={inputClass}>
+            {(Object.keys(PLAYER_FILTER_LABELS) as PlayerFilter[]).map(filter => (
+              <option key={filter} value={filter}>{PLAYER_FILTER_LABELS[filter]}</option>
+            ))}
+          </select>
+        </label>
+        <span className={`${mutedClass} ml-auto`}>{games.length} of {records.length} games</span>
+        <button type="button" onClick={onClear} disabled={records.length === 0} className={`${inputClass} disabled:opacity-50`}>
+          Clear
+        </button>
+      </div>
+
+      {games.length === 0 ? (
+        <p className={`text-xs ${mutedClass}`}>
+          Finished games are stored in this browser and summarized here.
+        </p>
+      ) : (
+        <>
+          <div>
+            <div className="flex flex-wrap items-center gap-3 mb-2 text-xs">
+              <h4 className={`font-semibold mr-auto ${labelClass}`}>Heat Map</h4>
+              <select value={heatKind} onChange={(e) => setHeatKind(e.target.value as HeatMapKind)} className={inputClass}>
+                <option value="eaten">Devil Eats</option>
+                <option value="trapped">Angel Trapped</option>
+              </select>
+              <select value={heatGrid} onChange={(e) => setHeatGrid(e.target.value as GridType)} className={inputClass}>
+                {GRID_TYPES.map(grid => (
+                  <option key={grid} value={grid}>{GRID_LABELS[grid]}</option>
+                ))}
+              </select>
+            </div>
+            {renderHeatMap()}
+          </div>
+
+          <div>
+            <h4 className={`text-xs font-semibold mb-2 ${labelClass}`}>Game Lengths (angel turns)</h4>
+            <table className={`w-full text-xs ${labelClass}`}>
+              <thead>
+                <tr className={mutedClass}>
+                  <th className="text-left font-normal">Game</th>
+                  <th className="text-right font-normal">Games</th>
+                  <th className="text-right font-normal">Angel Wins</th>
+                  <th className="text-right font-normal">Mean</th>
+                  <th className="text-right font-normal">Median</th>
+                  <th className="text-right font-normal">Max</th>
+                  <th className="font-normal">Distribution</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => {
+                  const summary = lengthSummary(group.records);
+                  const tallest = Math.max(...summary.histogram);
+                  return (
+                    <tr key={group.key}>
+                      <td>{groupLabel(group)}</td>
+                      <td className="text-right">{summary.games}</td>
+                      <td className="text-right">{Math.round((100 * summary.angelWins) / summary.games)}%</td>
+                      <td className="text-right">{summary.mean.toFixed(1)}</td>
+                      <td className="text-right">{summary.median}</td>
+                      <td className="text-right">{summary.max}</td>
+                      <td>
+                        <div
+                          className="flex items-end gap-px h-5 pl-2"
+                          title={summary.histogram
+                            .map((count, i) => `${i * summary.binWidth}–${(i + 1) * summary.binWidth - 1}: ${count}`)
+                            .join("\n")}
+                        >
+                          {summary.histogram.map((count, i) => (
+                            <div
+                              key={i}
+                              className={`w-1.5 ${darkMode ? "bg-blue-400" : "bg-blue-500"}`}
+                              style={{ height: `${(count / tallest) * 100}%` }}
+                            ></div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className={`text-xs font-semibold mb-2 ${labelClass}`}>Survival (chance the angel is still free)</h4>
+            {renderSurvival()}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Annotations } from "./annotations";
+import { GameState, Move, angelDestinations, describeResult, gameResult } from "./engine";
+import { Coord, coordKey, sameCoord } from "./geometry";
+
+// Spoken descriptions of the Angel board for screen readers, announced
+// through a live region as the game and the keyboard cursor move
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const describeCoord = (coord: Coord) => `${coord.q}, ${coord.r}`;
+
+// Whose turn it is, or how the game ended
+export const describeTurn = (state: GameState): string => {
+  const result = gameResult(state);
+  if (result) return describeResult(result);
+  if (state.currentTurn === "devil") return "Devil to eat.";
+  return `Angel to move, ${plural(angelDestinations(state).length, "valid move")}.`;
+};
+
+// The move that led to a position, followed by what happens next.
+// `before` is the position the move was played from.
+export const describeMove = (move: Move, before: GameState, after: GameState): string => {
+  if (move.player === "angel") {
+    return `Angel moves to ${describeCoord(move.coord)}. ${describeTurn(after)}`;
+  }
+  const eaten = after.eatenSquares.size - before.eatenSquares.size;
+  const extra = eaten > 1 ? ` and ${plural(eaten - 1, "square")} around it` : "";
+  return `Devil eats ${describeCoord(move.coord)}${extra}. ${describeTurn(after)}`;
+};
+
+// What is on a cell, for the keyboard cursor
+export const describeCell = (state: GameState, coord: Coord, annotations: Annotations): string => {
+  const key = coordKey(coord);
+  const parts = [describeCoord(coord)];
+  if (sameCoord(state.angelPos, coord)) parts.push("angel");
+  else if (state.eatenSquares.has(key)) parts.push("eaten");
+  else if (state.currentTurn === "angel" && angelDestinations(state).some(c => sameCoord(c, coord))) {
+    parts.push("valid move");
+  } else parts.push("empty");
+  const layers = annotations.layers.filter(layer => layer.visible && layer.squares.has(key));
+  if (layers.length > 0) {
+    parts.push(`highlighted on ${layers.map(layer => layer.name || "a layer").join(" and ")}`);
+  }
+  const note = annotations.notes.get(key);
+  if (note) parts.push(`note: ${note}`);
+  return `${parts.join(", ")}.`;
+};
@@ -0,0 +1,182 @@
+import { GameSettings, GameState, angelDestinations, isAngelGoal, isOnBoard } from "./engine";
+import { Coord, coordKey, getCellsInRange, gridDistance, moveReach, parseCoordKey } from "./geometry";
+
+// Reachability analysis of a position: the region the angel can still fly
+// around in, the pockets nobody can reach any more, and the fewest squares
+// the devil would have to eat to seal the angel in.
+//
+// The board is unbounded, so everything is computed inside a window around
+// the angel; reaching the edge of the window counts as getting out. The
+// angel's type constraints are taken as they stand now (a nice angel's
+// visited squares, say, don't grow during the fill).
+
+export interface RegionAnalysis {
+  radius: number; // of the analysed window around the angel
+  reachable: Set<string>; // squares the angel can still get to, inside the window
+  sealed: boolean; // the angel can never leave the window or reach its goal
+  deadPockets: Set<string>; // uneaten squares cut off from the angel and the outside
+  // Fewest squares to eat to seal the angel in; null if it can't be sealed
+  // (it can step off the board next) or the window is too big to compute
+  sealCut: Coord[] | null;
+}
+
+// Window radius: enough room for a few of the angel's moves in every direction
+export const analysisRadius = (settings: GameSettings) => 8 + moveReach(settings.angelPower, settings.metric) * 2;
+
+// Skip the seal computation when its flow graph (cells x moves per cell)
+// would be larger than this
+const MAX_CUT_WORK = 50_000;
+
+// Where the angel counts as having got away: the window's edge, or its goal
+const isExit = (coord: Coord, state: GameState, radius: number) =>
+  gridDistance(state.settings.gridType)(state.angelPos, coord) >= radius ||
+  isAngelGoal(coord, state.settings);
+
+const inWindow = (coord: Coord, state: GameState, radius: number) =>
+  gridDistance(state.settings.gridType)(state.angelPos, coord) <= radius;
+
+// Moves the angel could make from a square, staying inside the window
+const windowMoves = (state: GameState, from: Coord, radius: number) =>
+  angelDestinations(state, from).filter(c => inWindow(c, state, radius) || isAngelGoal(c, state.settings));
+
+const floodFill = (state: GameState, radius: number) => {
+  const reachable = new Set([coordKey(state.angelPos)]);
+  const queue = [state.angelPos];
+  let sealed = true;
+  for (let i = 0; i < queue.length; i++) {
+    if (isExit(queue[i], state, radius)) {
+      sealed = false;
+      continue;
+    }
+    for (const next of windowMoves(state, queue[i], radius)) {
+      const key = coordKey(next);
+      if (reachable.has(key)) continue;
+      reachable.add(key);
+      queue.push(next);
+    }
+  }
+  return { reachable, sealed };
+};
+
+// Uneaten squares in the window that neither the angel nor anything coming
+// in from outside the window can reach. Pockets ignore the angel's type:
+// a square only some other angel could reach is not dead.
+const findDeadPockets = (state: GameState, radius: number, reachable: Set<string>) => {
+  const { gridType, angelPower, metric } = state.settings;
+  const window = [state.angelPos, ...getCellsInRange(state.angelPos, radius, gridType)];
+  const open = (coord: Coord) => !state.eatenSquares.has(coordKey(coord)) && isOnBoard(coord, state.settings);
+
+  const outside = new Set<string>();
+  const queue = window.filter(c => isExit(c, state, radius) && open(c));
+  queue.forEach(c => outside.add(coordKey(c)));
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of getCellsInRange(queue[i], angelPower, gridType, metric)) {
+      const key = coordKey(next);
+      if (outside.has(key) || !open(next) || !inWindow(next, state, radius)) continue;
+      outside.add(key);
+      queue.push(next);
+    }
+  }
+
+  return new Set(window
+    .filter(open)
+    .map(coordKey)
+    .filter(key => !reachable.has(key) && !outside.has(key)));
+};
+
+// Minimum vertex cut between the angel and the exits, as a unit-capacity
+// max flow over the angel's move graph with every square split into an
+// "in" and an "out" node. The squares whose in/out edge ends up on the cut
+// are the ones to eat. The angel's own square and off-board squares can't
+// be eaten, so they have unlimited capacity.
+const findSealCut = (state: GameState, radius: number): Coord[] | null => {
+  const angelKey = coordKey(state.angelPos);
+  const moves = new Map<string, Coord[]>();
+  const movesFrom = (key: string) => {
+    let list = moves.get(key);
+    if (!list) {
+      list = isExit(parseCoordKey(key), state, radius) ? [] : windowMoves(state, parseCoordKey(key), radius);
+      moves.set(key, list);
+    }
+    return list;
+  };
+  const uncuttable = (key: string) => key === angelKey || !isOnBoard(parseCoordKey(key), state.settings);
+
+  const saturated = new Set<string>(); // squares whose in -> out edge carries flow
+  const flow = new Map<string, Map<string, number>>(); // flow[v][u]: flow on out(u) -> in(v)
+  const addFlow = (u: string, v: string, amount: number) => {
+    const into = flow.get(v) ?? new Map<string, number>();
+    const total = (into.get(u) ?? 0) + amount;
+    if (total === 0) into.delete(u);
+    else into.set(u, total);
+    flow.set(v, into);
+  };
+
+  // Node names: "o:key" for out nodes, "i:key" for in nodes
+  const residualBfs = () => {
+    const parent = new Map<string, string | null>([[`o:${angelKey}`, null]]);
+    const queue = [`o:${angelKey}`];
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i];
+      const key = node.slice(2);
+      const visit = (next: string) => {
+        if (parent.has(next)) return;
+        parent.set(next, node);
+        queue.push(next);
+      };
+      if (node.startsWith("o:")) {
+        if (isExit(parseCoordKey(key), state, radius)) return { parent, sink: node };
+        for (const next of movesFrom(key)) visit(`i:${coordKey(next)}`);
+        if (saturated.has(key)) visit(`i:${key}`);
+      } else {
+        if (uncuttable(key) || !saturated.has(key)) visit(`o:${key}`);
+        for (const [u, amount] of flow.get(key) ?? []) {
+          if (amount > 0) visit(`o:${u}`);
+        }
+      }
+    }
+    return { parent, sink: null };
+  };
+
+  // Eating all of the angel's moves always seals it, so more flow than that
+  // means some exit can't be cut off
+  const limit = angelDestinations(state).length;
+  for (let total = 0; ; total++) {
+    const { parent, sink } = residualBfs();
+    if (!sink) break;
+    if (total === limit) return null;
+    for (let node = sink; parent.get(node) !== null; node = parent.get(node)!) {
+      const prev = parent.get(node)!;
+      const [from, to] = [prev.slice(2), node.slice(2)];
+      if (prev.startsWith("i:") && node.startsWith("o:")) {
+        if (from === to) {
+          if (!uncuttable(to)) saturated.add(to);
+        } else {
+          addFlow(to, from, -1); // undoing flow on out(to) -> in(from)
+        }
+      } else if (prev.startsWith("o:") && node.startsWith("i:")) {
+        if (from === to) saturated.delete(to);
+        else addFlow(from, to, 1);
+      }
+    }
+  }
+
+  // Squares whose in node is reachable in the residual graph but whose
+  // out node is not
+  const { parent } = residualBfs();
+  return [...parent.keys()]
+    .filter(node => node.startsWith("i:") && !parent.has(`o:${node.slice(2)}`))
+    .map(node => parseCoordKey(node.slice(2)));
+};
+
+export const analyzePosition = (state: GameState, radius: number = analysisRadius(state.settings)): RegionAnalysis => {
+  const { reachable, sealed } = floodFill(state, radius);
+  const deadPockets = findDeadPockets(state, radius, reachable);
+
+  let sealCut: Coord[] | null = [];
+  if (!sealed) {
+    const windowSize = getCellsInRange(state.angelPos, radius, state.settings.gridType).length + 1;
+    sealCut = windowSize * angelDestinations(state).length <= MAX_CUT_WORK ? findSealCut(state, radius) : null;
+  }
+  return { radius, reachable, sealed, deadPockets, sealCut };
+};
@@ -0,0 +1,74 @@
+import { GameState, angelDestinations } from "./engine";
+import { Coord, euclideanDistance, moveDistance, parseCoordKey } from "./geometry";
+import { Rng, randomItem } from "./random";
+import { RunnerView, planRunner, runnerSupported, startRunner } from "./runner";
+import { DEFAULT_SEARCH_OPTIONS, SearchOptions, searchAngelMove } from "./search";
+
+// Computer-controlled Angel strategies
+
+export type AIStrategy = "random" | "greedy" | "lookahead" | "mathe" | "bowditch";
+
+export const AI_STRATEGIES: AIStrategy[] = ["random", "greedy", "lookahead", "mathe", "bowditch"];
+
+export const AI_STRATEGY_DESCRIPTIONS: Record<AIStrategy, string> = {
+  "random": "Flies to a random valid square.",
+  "greedy": "Flies as far from the eaten squares as it can, drifting away from the origin.",
+  "lookahead": "Searches ahead (minimax with alpha-beta) for the moves that keep the largest region to escape into.",
+  "mathe": "Máthé's lazy angel: never lands where it could have landed before, so eats there are ignored, and shadows a runner heading east along the grid lines, keeping lines beside the other eaten squares on its left. Square board, power 2 or more; greedy otherwise.",
+  "bowditch": "Bowditch's lady: shadows a walker heading east from square to square, keeping eaten squares on her left. Square board, power 4 or more; greedy otherwise.",
+};
+
+// Maximize the sum of distances to eaten squares
+const greedyMove = (state: GameState, validMoves: Coord[]): Coord => {
+  const distFn = moveDistance(state.settings.gridType, state.settings.metric);
+  const eaten = [...state.eatenSquares].map(parseCoordKey);
+  let bestMove = validMoves[0];
+  let bestScore = -Infinity;
+
+  for (const move of validMoves) {
+    let score = 0;
+    for (const eatenCoord of eaten) {
+      score += distFn(move, eatenCoord);
+    }
+    // Add small bonus for distance from origin
+    score += euclideanDistance(move) * 0.1;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+  }
+  return bestMove;
+};
+
+// Pick the square the Angel flies to next, or null if it is trapped. The
+// widget runs "lookahead" in a worker instead; this is for headless games.
+// The runner strategies remember their walk: pass the runner as it stands
+// before this move (see runnerView), or it starts at the angel.
+export const chooseAngelMove = (
+  strategy: AIStrategy,
+  state: GameState,
+  rng: Rng = Math.random,
+  searchOptions: SearchOptions = DEFAULT_SEARCH_OPTIONS,
+  runner: RunnerView | null = null
+): Coord | null => {
+  const validMoves = angelDestinations(state);
+  if (validMoves.length === 0) return null;
+
+  switch (strategy) {
+    case "random":
+      return randomItem(validMoves, rng);
+    case "greedy":
+      return greedyMove(state, validMoves);
+    case "lookahead":
+      return searchAngelMove(state, searchOptions).move;
+    case "mathe":
+    case "bowditch":
+      if (!runnerSupported(strategy, state)) return greedyMove(state, validMoves);
+      return planRunner(
+        strategy,
+        state,
+        runner ?? { runner: startRunner(strategy, state.angelPos), isSpent: () => false }
+      ).move;
+  }
+};
@@ -0,0 +1,91 @@
+// Annotations on the Angel board: named highlight layers, each with its own
+// color, and text notes pinned to cells. They are saved with a game but are
+// not part of it, so undo, new games and the other player never touch them.
+
+export interface HighlightLayer {
+  id: number;
+  name: string;
+  color: string; // #rrggbb
+  visible: boolean;
+  squares: ReadonlySet<string>; // coord keys
+}
+
+export interface Annotations {
+  layers: readonly HighlightLayer[]; // later layers are drawn over earlier ones
+  notes: ReadonlyMap<string, string>; // coord key -> text
+}
+
+// Colors offered to new layers in turn; they stay readable in both themes
+export const LAYER_COLORS = ["#fbbf24", "#38bdf8", "#a3e635", "#e879f9", "#2dd4bf", "#a8a29e"];
+
+export const MAX_LAYERS = 8;
+export const MAX_LAYER_NAME = 40;
+export const MAX_NOTE_LENGTH = 200;
+
+export const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const DEFAULT_LAYER_NAME = "Highlights";
+
+export const EMPTY_ANNOTATIONS: Annotations = {
+  layers: [{ id: 1, name: DEFAULT_LAYER_NAME, color: LAYER_COLORS[0], visible: true, squares: new Set() }],
+  notes: new Map(),
+};
+
+// A single layer holding the highlights of a game saved before layers existed
+export const legacyAnnotations = (highlights: Iterable<string>): Annotations => ({
+  layers: [{ ...EMPTY_ANNOTATIONS.layers[0], squares: new Set(highlights) }],
+  notes: new Map(),
+});
+
+export const addLayer = (annotations: Annotations): Annotations => {
+  if (annotations.layers.length >= MAX_LAYERS) return annotations;
+  const id = Math.max(0, ...annotations.layers.map(layer => layer.id)) + 1;
+  const color = LAYER_COLORS[annotations.layers.length % LAYER_COLORS.length];
+  return {
+    ...annotations,
+    layers: [...annotations.layers, { id, name: `Layer ${id}`, color, visible: true, squares: new Set() }],
+  };
+};
+
+// The last layer can't be removed, only cleared
+export const removeLayer = (annotations: Annotations, id: number): Annotations =>
+  annotations.layers.length <= 1
+    ? annotations
+    : { ...annotations, layers: annotations.layers.filter(layer => layer.id !== id) };
+
+export const updateLayer = (
+  annotations: Annotations,
+  id: number,
+  change: Partial<Omit<HighlightLayer, "id">>
+): Annotations => ({
+  ...annotations,
+  layers: annotations.layers.map(layer => (layer.id === id ? { ...layer, ...change } : layer)),
+});
+
+// Add a square to a layer, or take it out
+export const paintSquare = (annotations: Annotations, id: number, key: string, on: boolean): Annotations => {
+  const layer = annotations.layers.find(layer => layer.id === id);
+  if (!layer || layer.squares.has(key) === on) return annotations;
+  const squares = new Set(layer.squares);
+  if (on) squares.add(key);
+  else squares.delete(key);
+  return updateLayer(annotations, id, { squares });
+};
+
+// Set a cell's note; an empty note removes it
+export const setNote = (annotations: Annotations, key: string, text: string): Annotations => {
+  const notes = new Map(annotations.notes);
+  const trimmed = text.trim().slice(0, MAX_NOTE_LENGTH);
+  if (trimmed === "") notes.delete(key);
+  else notes.set(key, trimmed);
+  return { ...annotations, notes };
+};
+
+// Color of the topmost visible layer holding the square, if any
+export const highlightColor = (annotations: Annotations, key: string): string | null => {
+  for (let i = annotations.layers.length - 1; i >= 0; i--) {
+    const layer = annotations.layers[i];
+    if (layer.visible && layer.squares.has(key)) return layer.color;
+  }
+  return null;
+};
@@ -0,0 +1,304 @@
+import { GameState, Move } from "./engine";
+import {
+  CELL_WIDTH,
+  Coord,
+  GridType,
+  Rect,
+  cellCenter,
+  cellCorners,
+  coordKey,
+  getCellsInRect,
+  parseCoordKey,
+  sameCoord,
+} from "./geometry";
+import { groupMovesIntoRounds } from "./history";
+
+// Board images for write-ups: a position as a standalone SVG file, or a PNG
+// rasterized from that SVG. Everything is drawn from the game history, not
+// copied from the on-screen board, so the two renderers export alike.
+
+export type ImageArea = "board" | "viewport";
+
+export const IMAGE_AREA_DESCRIPTIONS: Record<ImageArea, string> = {
+  "board": "Every square that has been played on, with a margin.",
+  "viewport": "The part of the board currently on screen.",
+};
+
+export interface ImageOptions {
+  area: ImageArea;
+  legend: boolean;
+  coordinates: boolean;
+  moveNumbers: boolean; // round number on each eaten square
+  angelPath: boolean; // line through the angel's squares in order
+  notes: boolean; // numbered on their cells and listed below the board
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+  area: "board",
+  legend: true,
+  coordinates: false,
+  moveNumbers: false,
+  angelPath: false,
+  notes: true,
+};
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+export interface ImageColors {
+  empty: string;
+  stroke: string;
+  label: string; // coordinates and move numbers
+  path: string;
+  text: string; // legend text
+  note: string; // note markers
+}
+
+export interface BoardImageInput {
+  history: readonly GameState[]; // positions up to and including the one shown
+  moves: readonly Move[]; // moves[i] was played from history[i]
+  viewRect: Rect;
+  cellFill: (coord: Coord) => string;
+  colors: ImageColors;
+  angelImage: string; // image URL; a data URL keeps the file self-contained
+  legend: LegendEntry[];
+  notes: ReadonlyMap<string, string>; // coord key -> text
+}
+
+export interface BoardImage {
+  svg: string;
+  width: number; // pixels
+  height: number;
+}
+
+// Pixels per board unit, and the largest image side before that is reduced
+const PIXELS_PER_UNIT = 40;
+const MAX_IMAGE_SIDE = 4000;
+// Margin around the played area, in board units
+const BOARD_MARGIN = 2;
+const MIN_BOARD_SIZE = 7;
+
+const LEGEND_ROW = 24;
+const LEGEND_SWATCH = 14;
+const LEGEND_PADDING = 10;
+const LEGEND_FONT = 12;
+
+// Device pixels per CSS pixel in PNG exports
+const PNG_SCALE = 2;
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Numbers in the SVG, short but precise enough for any zoom
+const n = (value: number) => Number(value.toFixed(4)).toString();
+
+// The angel's squares in the order it flew through them. Taken from the
+// history rather than visitedSquares, which holds a revisited square once.
+const angelPath = (history: readonly GameState[]): Coord[] =>
+  history
+    .map(state => state.angelPos)
+    .filter((coord, i, path) => i === 0 || !sameCoord(coord, path[i - 1]));
+
+// Round in which each eaten square was eaten; squares eaten in the setup
+// have none
+const eatRounds = (history: readonly GameState[], moves: readonly Move[]): Map<string, number> => {
+  const rounds = new Map<string, number>();
+  for (const round of groupMovesIntoRounds(moves, history)) {
+    for (const { move, index } of round.entries) {
+      if (move.player !== "devil" || index + 1 >= history.length) continue;
+      for (const key of history[index + 1].eatenSquares) {
+        if (!history[index].eatenSquares.has(key)) rounds.set(key, round.number);
+      }
+    }
+  }
+  return rounds;
+};
+
+// Bounds of everything played on, padded so the edge cells show whole
+const playedArea = (history: readonly GameState[], gridType: GridType): Rect => {
+  const state = history[history.length - 1];
+  const points = [...history.map(s => s.angelPos), ...[...state.eatenSquares].map(parseCoordKey)]
+    .map(coord => cellCenter(coord, gridType));
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const grow = (min: number, max: number) => {
+    const size = Math.max(max - min + 2 * BOARD_MARGIN, MIN_BOARD_SIZE);
+    return { start: (min + max) / 2 - size / 2, size };
+  };
+  const x = grow(Math.min(...xs), Math.max(...xs));
+  const y = grow(Math.min(...ys), Math.max(...ys));
+  return { x: x.start, y: y.start, width: x.size, height: y.size };
+};
+
+const cellIn = (area: Rect, coord: Coord, gridType: GridType) => {
+  const { x, y } = cellCenter(coord, gridType);
+  return x >= area.x && x <= area.x + area.width && y >= area.y && y <= area.y + area.height;
+};
+
+const cellShape = (coord: Coord, gridType: GridType, fill: string, stroke: string, strokeWidth: number) => {
+  const { x, y } = cellCenter(coord, gridType);
+  const style = `fill="${fill}" stroke="${stroke}" stroke-width="${n(strokeWidth)}"`;
+  if (gridType === "square") {
+    return `<rect x="${n(x - 0.5)}" y="${n(y - 0.5)}" width="1" height="1" ${style}/>`;
+  }
+  const points = cellCorners(coord, gridType).map(c => `${n(c.x)},${n(c.y)}`).join(" ");
+  return `<polygon points="${points}" ${style}/>`;
+};
+
+// Lay the legend out in rows that fit the image width
+const legendRows = (entries: LegendEntry[], width: number): LegendEntry[][] => {
+  const rows: LegendEntry[][] = [];
+  let rowWidth = Infinity;
+  for (const entry of entries) {
+    // Rough text width; SVG has no text metrics before it is rendered
+    const entryWidth = LEGEND_SWATCH + 6 + entry.label.length * LEGEND_FONT * 0.6 + 16;
+    if (rowWidth + entryWidth > width - 2 * LEGEND_PADDING) {
+      rows.push([]);
+      rowWidth = 0;
+    }
+    rows[rows.length - 1].push(entry);
+    rowWidth += entryWidth;
+  }
+  return rows;
+};
+
+export const boardImageSvg = (input: BoardImageInput, options: ImageOptions): BoardImage => {
+  const { history, moves, colors } = input;
+  const state = history[history.length - 1];
+  const { gridType } = state.settings;
+  const area = options.area === "viewport" ? input.viewRect : playedArea(history, gridType);
+
+  const scale = Math.min(PIXELS_PER_UNIT, MAX_IMAGE_SIDE / Math.max(area.width, area.height));
+  const width = Math.round(area.width * scale);
+  const boardHeight = Math.round(area.height * scale);
+  const rows = options.legend ? legendRows(input.legend, width) : [];
+  const legendHeight = rows.length > 0 ? rows.length * LEGEND_ROW + 2 * LEGEND_PADDING : 0;
+  // Notes in the picture and their text underneath, numbered in the order they were added
+  const notes = options.notes
+    ? [...input.notes].filter(([key]) => cellIn(area, parseCoordKey(key), gridType))
+    : [];
+  const notesHeight = notes.length > 0 ? notes.length * LEGEND_ROW + 2 * LEGEND_PADDING : 0;
+  const height = boardHeight + legendHeight + notesHeight;
+
+  const cellWidth = CELL_WIDTH[gridType];
+  const fontSize = cellWidth * 0.3;
+  const rounds = options.moveNumbers ? eatRounds(history, moves) : new Map<string, number>();
+  const cells = getCellsInRect(area, gridType);
+
+  const board: string[] = [];
+  for (const coord of cells) {
+    board.push(cellShape(coord, gridType, input.cellFill(coord), colors.stroke, 1 / scale));
+  }
+  const text = (coord: Coord, label: string, fill: string, dy = 0) => {
+    const { x, y } = cellCenter(coord, gridType);
+    return `<text x="${n(x)}" y="${n(y + dy)}" font-size="${n(fontSize)}" fill="${fill}" ` +
+      `text-anchor="middle" dominant-baseline="middle">${escapeXml(label)}</text>`;
+  };
+  for (const coord of cells) {
+    const round = rounds.get(coordKey(coord));
+    // With both shown, the coordinates move up to make room
+    if (options.coordinates) {
+      board.push(text(coord, `${coord.q},${coord.r}`, colors.label, round !== undefined ? -fontSize * 0.6 : 0));
+    }
+    if (round !== undefined) {
+      board.push(text(coord, String(round), "#ffffff", options.coordinates ? fontSize * 0.6 : 0));
+    }
+  }
+  if (options.angelPath) {
+    const path = angelPath(history).map(coord => cellCenter(coord, gridType));
+    const points = path.map(p => `${n(p.x)},${n(p.y)}`).join(" ");
+    board.push(
+      `<polyline points="${points}" fill="none" stroke="${colors.path}" stroke-width="${n(cellWidth * 0.08)}" ` +
+      `stroke-linejoin="round" stroke-linecap="round" stroke-opacity="0.8"/>`,
+      `<circle cx="${n(path[0].x)}" cy="${n(path[0].y)}" r="${n(cellWidth * 0.1)}" fill="${colors.path}"/>`
+    );
+  }
+  notes.forEach(([key], i) => {
+    const { x, y } = cellCenter(parseCoordKey(key), gridType);
+    const cx = x + cellWidth * 0.3;
+    const cy = y - cellWidth * 0.3;
+    board.push(
+      `<circle cx="${n(cx)}" cy="${n(cy)}" r="${n(cellWidth * 0.15)}" fill="${colors.note}"/>`,
+      `<text x="${n(cx)}" y="${n(cy)}" font-size="${n(cellWidth * 0.2)}" fill="${colors.empty}" ` +
+      `text-anchor="middle" dominant-baseline="central">${i + 1}</text>`
+    );
+  });
+  const angel = cellCenter(state.angelPos, gridType);
+  const iconSize = cellWidth * 0.8;
+  board.push(
+    `<image href="${escapeXml(input.angelImage)}" x="${n(angel.x - iconSize / 2)}" y="${n(angel.y - iconSize / 2)}" ` +
+    `width="${n(iconSize)}" height="${n(iconSize)}"/>`
+  );
+
+  const legend = rows.flatMap((row, i) => {
+    const y = boardHeight + LEGEND_PADDING + i * LEGEND_ROW + LEGEND_ROW / 2;
+    let x = LEGEND_PADDING;
+    return row.map(entry => {
+      const item =
+        `<rect x="${x}" y="${n(y - LEGEND_SWATCH / 2)}" width="${LEGEND_SWATCH}" height="${LEGEND_SWATCH}" ` +
+        `fill="${entry.color}" stroke="${colors.stroke}"/>` +
+        `<text x="${x + LEGEND_SWATCH + 6}" y="${n(y)}" font-size="${LEGEND_FONT}" fill="${colors.text}" ` +
+        `dominant-baseline="middle">${escapeXml(entry.label)}</text>`;
+      x += LEGEND_SWATCH + 6 + entry.label.length * LEGEND_FONT * 0.6 + 16;
+      return item;
+    });
+  });
+
+  const noteList = notes.map(([key, text], i) => {
+    const y = boardHeight + legendHeight + LEGEND_PADDING + i * LEGEND_ROW + LEGEND_ROW / 2;
+    return `<text x="${LEGEND_PADDING}" y="${n(y)}" font-size="${LEGEND_FONT}" fill="${colors.text}" ` +
+      `dominant-baseline="middle">${i + 1}. (${escapeXml(key)}) ${escapeXml(text)}</text>`;
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+    `font-family="sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="${colors.empty}"/>`,
+    `<svg x="0" y="0" width="${width}" height="${boardHeight}" ` +
+    `viewBox="${n(area.x)} ${n(area.y)} ${n(area.width)} ${n(area.height)}">`,
+    ...board,
+    `</svg>`,
+    ...legend,
+    ...noteList,
+    `</svg>`,
+  ].join("\n");
+  return { svg, width, height };
+};
+
+// Fetch an image into a data URL, so exports don't depend on this site.
+// Images inside an SVG drawn to a canvas must be inline anyway.
+export const inlineImage = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`could not load ${url}`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`could not read ${url}`));
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Rasterize an exported board through an <img> and a canvas
+export const boardImagePng = async (image: BoardImage): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([image.svg], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const scale = Math.min(PNG_SCALE, MAX_IMAGE_SIDE / Math.max(image.width, image.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("canvas is not available");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("could not encode the PNG"))), "image/png");
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
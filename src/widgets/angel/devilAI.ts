@@ -0,0 +1,139 @@
+import { GameState, angelDestinations, eatenBy, isLegalMove, legalMoves } from "./engine";
+import { Coord, cellCenter, coordKey, getRing, gridDistance, moveReach } from "./geometry";
+import { Rng, randomItem } from "./random";
+
+// Computer-controlled Devil strategies
+
+export type DevilStrategy = "random" | "min-moves" | "wall" | "box";
+
+export const DEVIL_STRATEGY_DESCRIPTIONS: Record<DevilStrategy, string> = {
+  "random": "Eats a random square near the angel.",
+  "min-moves": "Eats the square that leaves the angel with the fewest valid moves.",
+  "wall": "Builds a wall across the angel's path at a fixed distance ahead of it.",
+  "box": "Berlekamp-style boxing: walls off a box around the origin, always eating the edge square nearest the angel. Designed for power-1 angels.",
+};
+
+// Default distance parameter per strategy (wall distance ahead / box radius)
+export const DEVIL_DEFAULT_DISTANCE: Record<DevilStrategy, number> = {
+  "random": 0,
+  "min-moves": 0,
+  "wall": 4,
+  "box": 16,
+};
+
+// Squares the devil may eat; the board may be finite
+const isEdible = (coord: Coord, state: GameState) =>
+  isLegalMove(state, { player: "devil", coord });
+
+// Unit vector of the angel's current heading. Before the first move the angel
+// is assumed to be heading away from the origin (or right, when at the origin).
+const angelHeading = (state: GameState): { x: number; y: number } => {
+  const { gridType } = state.settings;
+  const here = cellCenter(state.angelPos, gridType);
+  let from = state.prevAngelPos ? cellCenter(state.prevAngelPos, gridType) : { x: 0, y: 0 };
+  if (here.x === from.x && here.y === from.y) {
+    from = { x: here.x - 1, y: here.y };
+  }
+  const dx = here.x - from.x;
+  const dy = here.y - from.y;
+  const len = Math.hypot(dx, dy);
+  return { x: dx / len, y: dy / len };
+};
+
+// Cosine of the angle between the heading and the direction from the angel to a cell
+const alignment = (coord: Coord, heading: { x: number; y: number }, state: GameState) => {
+  const here = cellCenter(state.angelPos, state.settings.gridType);
+  const there = cellCenter(coord, state.settings.gridType);
+  const dx = there.x - here.x;
+  const dy = there.y - here.y;
+  const len = Math.hypot(dx, dy);
+  return len === 0 ? 0 : (dx * heading.x + dy * heading.y) / len;
+};
+
+const randomEat = (state: GameState, rng: Rng): Coord | null => {
+  const candidates = legalMoves(state);
+  if (candidates.length === 0) return null;
+  return randomItem(candidates, rng).coord;
+};
+
+const minMovesEat = (state: GameState, rng: Rng): Coord | null => {
+  const heading = angelHeading(state);
+  const candidates = legalMoves(state, moveReach(state.settings.angelPower, state.settings.metric)).map(move => move.coord);
+
+  let best: Coord | null = null;
+  let bestMoves = Infinity;
+  let bestAlignment = -Infinity;
+  for (const coord of candidates) {
+    const eaten = new Set(state.eatenSquares);
+    eatenBy(state, coord).forEach(cell => eaten.add(coordKey(cell)));
+    const moves = angelDestinations(state, state.angelPos, eaten).length;
+    // Break ties by eating in the direction the angel is heading
+    const align = alignment(coord, heading, state);
+    if (moves < bestMoves || (moves === bestMoves && align > bestAlignment)) {
+      best = coord;
+      bestMoves = moves;
+      bestAlignment = align;
+    }
+  }
+  return best ?? randomEat(state, rng);
+};
+
+const wallEat = (state: GameState, wallDistance: number, rng: Rng): Coord | null => {
+  const heading = angelHeading(state);
+  const distance = Math.max(wallDistance, 1);
+  // The wall is the forward half of the ring at the given distance, filled
+  // from the middle outwards
+  const wall = getRing(state.angelPos, distance, state.settings.gridType)
+    .filter(c => isEdible(c, state))
+    .map(c => ({ coord: c, align: alignment(c, heading, state) }))
+    .filter(c => c.align > 0)
+    .sort((a, b) => b.align - a.align);
+  return wall.length > 0 ? wall[0].coord : minMovesEat(state, rng);
+};
+
+const boxEat = (state: GameState, boxRadius: number, rng: Rng): Coord | null => {
+  const origin = { q: 0, r: 0 };
+  const distFn = gridDistance(state.settings.gridType);
+  const radius = Math.max(boxRadius, 1);
+
+  // Once the angel is outside the box, or the box is complete, just hem it in
+  if (distFn(origin, state.angelPos) >= radius) return minMovesEat(state, rng);
+  const edge = getRing(origin, radius, state.settings.gridType).filter(c => isEdible(c, state));
+  if (edge.length === 0) return minMovesEat(state, rng);
+
+  // Eat the edge square closest to the angel, preferring the one it is heading towards
+  const heading = angelHeading(state);
+  let best = edge[0];
+  let bestDist = Infinity;
+  let bestAlignment = -Infinity;
+  for (const coord of edge) {
+    const dist = distFn(state.angelPos, coord);
+    const align = alignment(coord, heading, state);
+    if (dist < bestDist || (dist === bestDist && align > bestAlignment)) {
+      best = coord;
+      bestDist = dist;
+      bestAlignment = align;
+    }
+  }
+  return best;
+};
+
+// Pick the square the Devil eats next, or null if nothing sensible is left.
+// `distance` is the wall distance for "wall" and the box radius for "box".
+export const chooseDevilMove = (
+  strategy: DevilStrategy,
+  state: GameState,
+  distance: number,
+  rng: Rng = Math.random
+): Coord | null => {
+  switch (strategy) {
+    case "random":
+      return randomEat(state, rng);
+    case "min-moves":
+      return minMovesEat(state, rng);
+    case "wall":
+      return wallEat(state, distance, rng);
+    case "box":
+      return boxEat(state, distance, rng);
+  }
+};
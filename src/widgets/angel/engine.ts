@@ -0,0 +1,379 @@
+import {
+  Coord,
+  GridType,
+  MoveMetric,
+  coordKey,
+  getBlock,
+  getCellsInRange,
+  getNeighbors,
+  gridDistance,
+  moveReach,
+  radialDistance,
+  sameCoord,
+} from "./geometry";
+
+// Headless Angel/Devil game engine. Game states are immutable values and
+// moves are plain data, so games can be scripted, replayed and played by
+// the AIs without the UI; the widget only renders states and feeds moves in.
+
+export type AngelType = "regular" | "nice" | "very-nice" | "fool" | "out-and-out-fool";
+
+export const ANGEL_TYPES: AngelType[] = ["regular", "nice", "very-nice", "fool", "out-and-out-fool"];
+
+export const ANGEL_TYPE_DESCRIPTIONS: Record<AngelType, string> = {
+  "regular": "Standard angel: can move to any square within power distance.",
+  "nice": "Never returns to a square it has already visited.",
+  "very-nice": "Never visits squares that were reachable on previous turns.",
+  "fool": "Always increases its y-coordinate (moves upward).",
+  "out-and-out-fool": "Always increases distance from the origin.",
+};
+
+// How the angel can win. Without a rule the angel can only "win" by
+// surviving forever, so every finished game is a devil win.
+export type AngelWinRule =
+  | { type: "none" }
+  | { type: "survive"; turns: number } // make this many moves
+  | { type: "distance"; distance: number } // get this far from the origin
+  | { type: "escape"; boardRadius: number }; // leave a finite board around the origin
+
+export const WIN_RULE_DESCRIPTIONS: Record<AngelWinRule["type"], string> = {
+  "none": "The angel must survive forever; the game only ends when it is trapped.",
+  "survive": "The angel wins after surviving the given number of turns.",
+  "distance": "The angel wins by reaching the given distance from the origin.",
+  "escape": "The board is finite: the devil can only eat on it, and the angel wins by stepping off it.",
+};
+
+// Default parameter for each rule (turns, distance, board radius)
+export const WIN_RULE_DEFAULT_VALUE: Record<AngelWinRule["type"], number> = {
+  "none": 0,
+  "survive": 50,
+  "distance": 20,
+  "escape": 15,
+};
+
+export const makeWinRule = (type: AngelWinRule["type"], value: number): AngelWinRule => {
+  switch (type) {
+    case "none":
+      return { type };
+    case "survive":
+      return { type, turns: value };
+    case "distance":
+      return { type, distance: value };
+    case "escape":
+      return { type, boardRadius: value };
+  }
+};
+
+export const winRuleValue = (rule: AngelWinRule): number => {
+  switch (rule.type) {
+    case "none":
+      return 0;
+    case "survive":
+      return rule.turns;
+    case "distance":
+      return rule.distance;
+    case "escape":
+      return rule.boardRadius;
+  }
+};
+
+// What each of the devil's eats takes
+export type EatShape = "single" | "plus" | "block";
+
+export const EAT_SHAPES: EatShape[] = ["single", "plus", "block"];
+
+export const EAT_SHAPE_DESCRIPTIONS: Record<EatShape, string> = {
+  "single": "Each eat takes one square.",
+  "plus": "Each eat takes a square and the squares sharing an edge with it.",
+  "block": "Each eat takes a 2x2 block with the chosen square at its top left (a rhombus of hexes, or a triangle of four triangles).",
+};
+
+// Handicaps: how many actions make up each player's turn. A turn of several
+// actions is played as that many moves in a row.
+export interface TurnRules {
+  angelMoves: number; // moves in each angel turn
+  devilEats: number; // eats in each devil turn
+  devilEvery: number; // the devil only gets a turn after every this many angel turns
+  eatShape: EatShape;
+}
+
+export const DEFAULT_TURN_RULES: TurnRules = {
+  angelMoves: 1,
+  devilEats: 1,
+  devilEvery: 1,
+  eatShape: "single",
+};
+
+// Upper limit for the action counts in TurnRules
+export const MAX_TURN_ACTIONS = 5;
+
+export interface GameSettings {
+  gridType: GridType;
+  angelPower: number;
+  angelType: AngelType;
+  winRule: AngelWinRule;
+  metric: MoveMetric; // shape of the angel's move on the square grid
+  turnRules: TurnRules;
+}
+
+export type Turn = "angel" | "devil";
+
+// A move by either player. Devil moves eat the given square, or the eat
+// shape placed there.
+export type AngelMove = { readonly player: "angel"; readonly coord: Coord };
+export type DevilMove = { readonly player: "devil"; readonly coord: Coord };
+export type Move = AngelMove | DevilMove;
+
+export interface GameState {
+  readonly settings: Readonly<GameSettings>;
+  readonly angelPos: Coord;
+  readonly prevAngelPos: Coord | null;
+  readonly eatenSquares: ReadonlySet<string>;
+  readonly visitedSquares: ReadonlySet<string>;
+  readonly reachableHistory: readonly ReadonlySet<string>[]; // squares in range before each angel move
+  readonly currentTurn: Turn;
+  readonly actionsLeft: number; // moves or eats left in the current turn, this one included
+  readonly turnNumber: number; // angel moves made so far
+}
+
+export interface GameResult {
+  winner: Turn;
+  reason: "trapped" | "survived" | "distance" | "escaped";
+  turns: number; // angel turns completed
+  squaresEaten: number;
+}
+
+// Starting position of a game: where the angel stands, what is already
+// eaten and who moves first. Win rules still measure from the origin.
+export interface GameSetup {
+  angelPos: Coord;
+  eatenSquares: readonly string[]; // coord keys
+  firstTurn: Turn;
+}
+
+// The usual start: an empty board with the angel on the origin, to move first
+export const DEFAULT_SETUP: GameSetup = {
+  angelPos: { q: 0, r: 0 },
+  eatenSquares: [],
+  firstTurn: "angel",
+};
+
+const actionsPerTurn = (turn: Turn, settings: GameSettings) =>
+  turn === "angel" ? settings.turnRules.angelMoves : settings.turnRules.devilEats;
+
+// A new game from the given setup. Throws if the angel starts on an eaten
+// square.
+export const createGame = (settings: GameSettings, setup: GameSetup = DEFAULT_SETUP): GameState => {
+  const angelKey = coordKey(setup.angelPos);
+  if (setup.eatenSquares.includes(angelKey)) {
+    throw new Error("the angel can't start on an eaten square");
+  }
+  return {
+    settings,
+    angelPos: setup.angelPos,
+    prevAngelPos: null,
+    eatenSquares: new Set(setup.eatenSquares),
+    visitedSquares: new Set([angelKey]),
+    reachableHistory: [],
+    currentTurn: setup.firstTurn,
+    actionsLeft: actionsPerTurn(setup.firstTurn, settings),
+    turnNumber: 0,
+  };
+};
+
+// The setup a game started from, given its first state
+export const gameSetup = (start: GameState): GameSetup => ({
+  angelPos: start.angelPos,
+  eatenSquares: [...start.eatenSquares],
+  firstTurn: start.currentTurn,
+});
+
+export const isDefaultSetup = (setup: GameSetup) =>
+  sameCoord(setup.angelPos, DEFAULT_SETUP.angelPos) &&
+  setup.eatenSquares.length === 0 &&
+  setup.firstTurn === DEFAULT_SETUP.firstTurn;
+
+// Whether the player to move hasn't acted yet this turn
+export const isTurnStart = (state: GameState) =>
+  state.actionsLeft === actionsPerTurn(state.currentTurn, state.settings);
+
+export const completedAngelTurns = (state: GameState) =>
+  Math.floor(state.turnNumber / state.settings.turnRules.angelMoves);
+
+const distanceFromOrigin = (coord: Coord, settings: GameSettings) =>
+  gridDistance(settings.gridType)({ q: 0, r: 0 }, coord);
+
+// Whether a cell exists on the board (always true unless the board is finite)
+export const isOnBoard = (coord: Coord, settings: GameSettings) =>
+  settings.winRule.type !== "escape" || distanceFromOrigin(coord, settings) <= settings.winRule.boardRadius;
+
+// Whether the angel standing on this cell has met the win rule's target
+// distance (reaching it, or stepping off a finite board)
+export const isAngelGoal = (coord: Coord, settings: GameSettings) => {
+  const { winRule } = settings;
+  if (winRule.type === "distance") return distanceFromOrigin(coord, settings) >= winRule.distance;
+  if (winRule.type === "escape") return !isOnBoard(coord, settings);
+  return false;
+};
+
+// Squares the angel could fly to from `from`. The AIs pass a different
+// origin or eaten set to look ahead without building whole states.
+export const angelDestinations = (
+  state: GameState,
+  from: Coord = state.angelPos,
+  eaten: ReadonlySet<string> = state.eatenSquares
+): Coord[] => {
+  const { angelType, angelPower, gridType, metric } = state.settings;
+  const allInRange = getCellsInRange(from, angelPower, gridType, metric);
+
+  return allInRange.filter(coord => {
+    const key = coordKey(coord);
+    // Can't move to eaten squares
+    if (eaten.has(key)) return false;
+
+    // Check angel type constraints
+    if (angelType === "nice" && state.visitedSquares.has(key)) return false;
+    if (angelType === "very-nice") {
+      for (const reachable of state.reachableHistory) {
+        if (reachable.has(key)) return false;
+      }
+    }
+    if (angelType === "fool" && coord.r <= from.r) return false;
+    if (angelType === "out-and-out-fool" && radialDistance(coord, gridType) <= radialDistance(from, gridType)) return false;
+
+    return true;
+  });
+};
+
+const isEdible = (state: GameState, coord: Coord) =>
+  !state.eatenSquares.has(coordKey(coord)) &&
+  !sameCoord(coord, state.angelPos) &&
+  isOnBoard(coord, state.settings);
+
+// Squares a devil eat at `coord` would take: the edible cells of the eat
+// shape placed there. The eat is legal if this isn't empty.
+export const eatenBy = (state: GameState, coord: Coord): Coord[] => {
+  const { eatShape } = state.settings.turnRules;
+  const shape = eatShape === "plus"
+    ? [coord, ...getNeighbors(coord, state.settings.gridType)]
+    : eatShape === "block"
+      ? getBlock(coord, state.settings.gridType)
+      : [coord];
+  return shape.filter(cell => isEdible(state, cell));
+};
+
+// Result of the game in this state, or null while it is still going
+export const gameResult = (state: GameState): GameResult | null => {
+  const summary = { turns: completedAngelTurns(state), squaresEaten: state.eatenSquares.size };
+  const { winRule } = state.settings;
+
+  // Survival counts whole turns, so an angel with several moves a turn must
+  // finish its last one. Trapped checks every move of a turn.
+  if (winRule.type === "survive" && summary.turns >= winRule.turns) {
+    return { winner: "angel", reason: "survived", ...summary };
+  }
+  if (isAngelGoal(state.angelPos, state.settings)) {
+    return { winner: "angel", reason: winRule.type === "escape" ? "escaped" : "distance", ...summary };
+  }
+  if (state.currentTurn === "angel" && angelDestinations(state).length === 0) {
+    return { winner: "devil", reason: "trapped", ...summary };
+  }
+  return null;
+};
+
+export const describeResult = (result: GameResult): string => {
+  const headline = {
+    trapped: "Devil Wins! Angel is trapped!",
+    survived: "Angel Wins! It survived!",
+    distance: "Angel Wins! It got away!",
+    escaped: "Angel Wins! It escaped the board!",
+  }[result.reason];
+  return `${headline} (${result.turns} turns, ${result.squaresEaten} squares eaten)`;
+};
+
+export const isLegalMove = (state: GameState, move: Move): boolean => {
+  if (move.player !== state.currentTurn || gameResult(state)) return false;
+  if (move.player === "angel") return angelDestinations(state).some(m => sameCoord(m, move.coord));
+  return eatenBy(state, move.coord).length > 0;
+};
+
+// Legal moves for the player to move. The board is unbounded, so the
+// devil's eats are only listed within `devilRadius` of the angel; any other
+// square on the board is legal too.
+export const legalMoves = (
+  state: GameState,
+  devilRadius: number = moveReach(state.settings.angelPower, state.settings.metric) * 2 + 1
+): Move[] => {
+  if (gameResult(state)) return [];
+  if (state.currentTurn === "angel") {
+    return angelDestinations(state).map(coord => ({ player: "angel", coord }));
+  }
+  return getCellsInRange(state.angelPos, devilRadius, state.settings.gridType)
+    .filter(coord => eatenBy(state, coord).length > 0)
+    .map(coord => ({ player: "devil", coord }));
+};
+
+// State after a move. Throws if the move is not legal in this state.
+export const applyMove = (state: GameState, move: Move): GameState => {
+  if (gameResult(state)) {
+    throw new Error("the game is over");
+  }
+  if (move.player !== state.currentTurn) {
+    throw new Error(`not the ${move.player}'s turn`);
+  }
+  if (!isLegalMove(state, move)) {
+    throw new Error(`illegal ${move.player === "angel" ? "angel move to" : "devil eat at"} ${coordKey(move.coord)}`);
+  }
+  const key = coordKey(move.coord);
+  const { angelType, angelPower, gridType, metric, turnRules } = state.settings;
+
+  if (move.player === "angel") {
+    const turnNumber = state.turnNumber + 1;
+    // After the last move of a turn the devil plays, unless it is waiting
+    // out its devilEvery turns
+    let currentTurn: Turn = "angel";
+    let actionsLeft = state.actionsLeft - 1;
+    if (actionsLeft === 0) {
+      const devilPlays = (turnNumber / turnRules.angelMoves) % turnRules.devilEvery === 0;
+      currentTurn = devilPlays ? "devil" : "angel";
+      actionsLeft = actionsPerTurn(currentTurn, state.settings);
+    }
+
+    // Store current reachable squares for very-nice angel
+    const reachableHistory = angelType === "very-nice"
+      ? [...state.reachableHistory, new Set(getCellsInRange(state.angelPos, angelPower, gridType, metric).map(coordKey))]
+      : state.reachableHistory;
+
+    return {
+      ...state,
+      angelPos: move.coord,
+      prevAngelPos: state.angelPos,
+      visitedSquares: new Set([...state.visitedSquares, key]),
+      reachableHistory,
+      currentTurn,
+      actionsLeft,
+      turnNumber,
+    };
+  }
+
+  const turnOver = state.actionsLeft === 1;
+  return {
+    ...state,
+    eatenSquares: new Set([...state.eatenSquares, ...eatenBy(state, move.coord).map(coordKey)]),
+    currentTurn: turnOver ? "angel" : "devil",
+    actionsLeft: turnOver ? turnRules.angelMoves : state.actionsLeft - 1,
+  };
+};
+
+// Every state of a game, starting from the initial one
+export const replayMoves = (
+  moves: readonly Move[],
+  settings: GameSettings,
+  setup: GameSetup = DEFAULT_SETUP
+): GameState[] => {
+  const states = [createGame(settings, setup)];
+  for (const move of moves) {
+    states.push(applyMove(states[states.length - 1], move));
+  }
+  return states;
+};
@@ -0,0 +1,401 @@
+// Coordinate systems and distance functions shared by the Angel game and its AIs
+
+export type GridType = "square" | "hex" | "triangle";
+
+export const GRID_TYPES: GridType[] = ["square", "hex", "triangle"];
+
+export interface Coord {
+  q: number; // column for square grid, axial q for hex, half-column for triangle
+  r: number; // row for square and triangle grids, axial r for hex
+}
+
+// Helper functions for coordinate systems
+export const coordKey = (coord: Coord) => `${coord.q},${coord.r}`;
+export const parseCoordKey = (key: string): Coord => {
+  const [q, r] = key.split(",").map(Number);
+  return { q, r };
+};
+// Whether a stored value is a key coordKey could have made
+export const isCoordKey = (value: unknown): value is string =>
+  typeof value === "string" && /^-?\d+,-?\d+$/.test(value);
+
+export const sameCoord = (a: Coord, b: Coord) => a.q === b.q && a.r === b.r;
+
+// Square grid: Chebyshev distance (king's move - includes diagonals)
+export const squareDistance = (a: Coord, b: Coord): number => {
+  return Math.max(Math.abs(a.q - b.q), Math.abs(a.r - b.r));
+};
+
+// Hex grid: Cube coordinate distance
+export const hexDistance = (a: Coord, b: Coord): number => {
+  // Convert axial to cube coordinates
+  const aq = a.q;
+  const ar = a.r;
+  const as = -aq - ar;
+  const bq = b.q;
+  const br = b.r;
+  const bs = -bq - br;
+  return (Math.abs(aq - bq) + Math.abs(ar - br) + Math.abs(as - bs)) / 2;
+};
+
+// Triangle grid: triangles in a row alternate pointing up and down, so q
+// steps by half a side. (q, r) points up when q + r is even. Every triangle
+// lies in one band of each of the three families of grid lines, and a step
+// across an edge crosses exactly one line.
+export const isUpTriangle = (coord: Coord) => (coord.q + coord.r) % 2 === 0;
+
+const triangleBands = (coord: Coord) => ({
+  a: coord.r,
+  b: Math.floor((coord.q + coord.r) / 2),
+  c: Math.ceil((coord.q - coord.r) / 2),
+});
+
+// Triangle grid: edge steps between triangles
+export const triangleDistance = (a: Coord, b: Coord): number => {
+  const from = triangleBands(a);
+  const to = triangleBands(b);
+  return Math.abs(from.a - to.a) + Math.abs(from.b - to.b) + Math.abs(from.c - to.c);
+};
+
+export const gridDistance = (gridType: GridType) =>
+  gridType === "hex" ? hexDistance : gridType === "triangle" ? triangleDistance : squareDistance;
+
+// Square grid: Manhattan distance (rook steps, no diagonals)
+export const manhattanDistance = (a: Coord, b: Coord): number => {
+  return Math.abs(a.q - b.q) + Math.abs(a.r - b.r);
+};
+
+// The shape of the angel's move on the square grid. Power counts squares for
+// the distance metrics and jumps for a leaper. The hex and triangle grids
+// always use their own distance.
+export type MoveMetric =
+  | { type: "chebyshev" } // king's move, the classic angel
+  | { type: "manhattan" }
+  | { type: "euclidean" } // disk of radius power
+  | { type: "leaper"; a: number; b: number }; // up to power (a,b) jumps, e.g. (1,2) for a knight
+
+export const DEFAULT_METRIC: MoveMetric = { type: "chebyshev" };
+
+// Largest leap along either axis, for the settings and for loading games
+export const MAX_LEAP = 5;
+
+export const METRIC_DESCRIPTIONS: Record<MoveMetric["type"], string> = {
+  "chebyshev": "Any square within power king's moves, diagonals included (the classic angel).",
+  "manhattan": "Any square within power steps up, down, left or right.",
+  "euclidean": "Any square whose center lies within a circle of radius power.",
+  "leaper": "Up to power jumps of (a,b) squares in any direction, like a chess knight's (1,2).",
+};
+
+export const metricName = (metric: MoveMetric): string => {
+  switch (metric.type) {
+    case "chebyshev":
+      return "King";
+    case "manhattan":
+      return "Manhattan";
+    case "euclidean":
+      return "Euclidean";
+    case "leaper":
+      return Math.min(metric.a, metric.b) === 1 && Math.max(metric.a, metric.b) === 2
+        ? "Knight"
+        : `(${metric.a},${metric.b})-Leaper`;
+  }
+};
+
+// Distance in the metric's own units. For a leaper this is only an estimate
+// of the number of jumps (straight-line length over jump length).
+export const moveDistance = (gridType: GridType, metric: MoveMetric = DEFAULT_METRIC) => {
+  if (gridType !== "square") return gridDistance(gridType);
+  switch (metric.type) {
+    case "chebyshev":
+      return squareDistance;
+    case "manhattan":
+      return manhattanDistance;
+    case "euclidean":
+      return (a: Coord, b: Coord) => Math.hypot(a.q - b.q, a.r - b.r);
+    case "leaper":
+      return (a: Coord, b: Coord) => Math.hypot(a.q - b.q, a.r - b.r) / Math.hypot(metric.a, metric.b);
+  }
+};
+
+// Chebyshev radius, in coordinates, of the area a move can land in. An edge
+// step on the triangle grid changes q or r by one, so this holds there too.
+export const moveReach = (power: number, metric: MoveMetric = DEFAULT_METRIC) =>
+  metric.type === "leaper" ? power * Math.max(metric.a, metric.b) : power;
+
+const leaperOffsets = (a: number, b: number): Coord[] => {
+  const offsets = new Map<string, Coord>();
+  for (const [dq, dr] of [[a, b], [b, a]]) {
+    for (const sq of [1, -1]) {
+      for (const sr of [1, -1]) {
+        const offset = { q: dq * sq, r: dr * sr };
+        offsets.set(coordKey(offset), offset);
+      }
+    }
+  }
+  return [...offsets.values()];
+};
+
+// Cells a leaper reaches in 1 to `jumps` jumps, excluding the center
+const getLeaperCells = (center: Coord, jumps: number, a: number, b: number): Coord[] => {
+  const offsets = leaperOffsets(a, b);
+  const seen = new Map<string, Coord>([[coordKey(center), center]]);
+  let frontier = [center];
+  for (let jump = 0; jump < jumps; jump++) {
+    const next: Coord[] = [];
+    for (const from of frontier) {
+      for (const offset of offsets) {
+        const coord = { q: from.q + offset.q, r: from.r + offset.r };
+        const key = coordKey(coord);
+        if (seen.has(key)) continue;
+        seen.set(key, coord);
+        next.push(coord);
+      }
+    }
+    frontier = next;
+  }
+  seen.delete(coordKey(center));
+  return [...seen.values()];
+};
+
+// Cells sharing an edge with the given one
+export const getNeighbors = (coord: Coord, gridType: GridType): Coord[] => {
+  const { q, r } = coord;
+  switch (gridType) {
+    case "square":
+      return [{ q: q + 1, r }, { q: q - 1, r }, { q, r: r + 1 }, { q, r: r - 1 }];
+    case "hex":
+      return [
+        { q: q + 1, r }, { q: q + 1, r: r - 1 }, { q, r: r - 1 },
+        { q: q - 1, r }, { q: q - 1, r: r + 1 }, { q, r: r + 1 },
+      ];
+    case "triangle":
+      return [{ q: q + 1, r }, { q: q - 1, r }, { q, r: isUpTriangle(coord) ? r + 1 : r - 1 }];
+  }
+};
+
+export type Direction = "up" | "down" | "left" | "right";
+
+// The cell next to this one on screen in the given direction, for moving a
+// keyboard cursor. Hex columns are staggered, so sideways steps alternate up
+// and down half a row to stay level; a triangle's neighbour above or below
+// may only touch it at a corner.
+export const keyboardStep = (coord: Coord, direction: Direction, gridType: GridType): Coord => {
+  const { q, r } = coord;
+  switch (direction) {
+    case "up":
+      return { q, r: r - 1 };
+    case "down":
+      return { q, r: r + 1 };
+    case "left":
+    case "right": {
+      const dq = direction === "right" ? 1 : -1;
+      if (gridType !== "hex") return { q: q + dq, r };
+      const evenColumn = q % 2 === 0;
+      return { q: q + dq, r: r + (dq === 1 ? (evenColumn ? -1 : 0) : (evenColumn ? 0 : 1)) };
+    }
+  }
+};
+
+// Four cells forming the grid's smallest "block" with the given corner
+// cell: a 2x2 square, a rhombus of hexes, or a triangle of side two
+export const getBlock = (corner: Coord, gridType: GridType): Coord[] => {
+  const { q, r } = corner;
+  switch (gridType) {
+    case "square":
+    case "hex":
+      return [corner, { q: q + 1, r }, { q, r: r + 1 }, { q: q + 1, r: r + 1 }];
+    case "triangle": {
+      const dr = isUpTriangle(corner) ? 1 : -1;
+      return [corner, { q: q - 1, r: r + dr }, { q, r: r + dr }, { q: q + 1, r: r + dr }];
+    }
+  }
+};
+
+// Euclidean distance from origin
+export const euclideanDistance = (coord: Coord): number => {
+  return Math.sqrt(coord.q * coord.q + coord.r * coord.r);
+};
+
+// Distance from the origin for the out-and-out fool. Square and hex grids use
+// their raw coordinates, as saved games were played with them; triangle
+// columns are only half a side apart, so use the real cell positions.
+export const radialDistance = (coord: Coord, gridType: GridType): number => {
+  if (gridType !== "triangle") return euclideanDistance(coord);
+  const { x, y } = cellCenter(coord, gridType);
+  return Math.hypot(x, y);
+};
+
+// Get all cells within power distance in the given metric. The board is
+// unbounded, so only the bounding box around the center is scanned.
+export const getCellsInRange = (
+  center: Coord,
+  power: number,
+  gridType: GridType,
+  metric: MoveMetric = DEFAULT_METRIC
+): Coord[] => {
+  if (gridType === "square" && metric.type === "leaper") {
+    return getLeaperCells(center, power, metric.a, metric.b);
+  }
+  const cells: Coord[] = [];
+  const distFn = moveDistance(gridType, metric);
+
+  for (let q = center.q - power; q <= center.q + power; q++) {
+    for (let r = center.r - power; r <= center.r + power; r++) {
+      const coord = { q, r };
+      const dist = distFn(center, coord);
+      if (dist <= power && dist > 0) {
+        cells.push(coord);
+      }
+    }
+  }
+  return cells;
+};
+
+// All cells at exactly the given distance from the center
+export const getRing = (center: Coord, radius: number, gridType: GridType): Coord[] => {
+  const distFn = gridDistance(gridType);
+  const cells: Coord[] = [];
+  for (let q = center.q - radius; q <= center.q + radius; q++) {
+    for (let r = center.r - radius; r <= center.r + radius; r++) {
+      const coord = { q, r };
+      if (distFn(center, coord) === radius) cells.push(coord);
+    }
+  }
+  return cells;
+};
+
+// Hex to pixel conversion
+export const hexToPixel = (q: number, r: number, size: number): { x: number; y: number } => {
+  const x = size * (3 / 2 * q);
+  const y = size * (Math.sqrt(3) / 2 * q + Math.sqrt(3) * r);
+  return { x, y };
+};
+
+// Hexagon circumradius in board units, chosen so hex and square cells are
+// about the same size on screen
+export const HEX_SIZE = 0.55;
+
+// Triangle side in board units, so a triangle covers about one square
+export const TRIANGLE_SIZE = 1.5;
+const TRIANGLE_HEIGHT = TRIANGLE_SIZE * Math.sqrt(3) / 2;
+
+// Triangle centroid: rows are centered on y = r * height, and the centroid
+// sits a third of the way up from the base
+export const triangleToPixel = (q: number, r: number, size: number): { x: number; y: number } => {
+  const height = size * Math.sqrt(3) / 2;
+  const offset = isUpTriangle({ q, r }) ? height / 6 : -height / 6;
+  return { x: q * size / 2, y: r * height + offset };
+};
+
+// Corners of a triangle relative to its centroid, apex first
+export const triangleCorners = (coord: Coord, size: number): { x: number; y: number }[] => {
+  const height = size * Math.sqrt(3) / 2;
+  const flip = isUpTriangle(coord) ? 1 : -1;
+  return [
+    { x: 0, y: -flip * height * 2 / 3 },
+    { x: size / 2, y: flip * height / 3 },
+    { x: -size / 2, y: flip * height / 3 },
+  ];
+};
+
+// Cell center in board units (a square cell is 1 unit wide)
+export const cellCenter = (coord: Coord, gridType: GridType): { x: number; y: number } => {
+  switch (gridType) {
+    case "hex":
+      return hexToPixel(coord.q, coord.r, HEX_SIZE);
+    case "triangle":
+      return triangleToPixel(coord.q, coord.r, TRIANGLE_SIZE);
+    case "square":
+      return { x: coord.q, y: coord.r };
+  }
+};
+
+// Corners of a cell in board units, for drawing it as a polygon
+export const cellCorners = (coord: Coord, gridType: GridType): { x: number; y: number }[] => {
+  const center = cellCenter(coord, gridType);
+  const offsets = gridType === "square"
+    ? [{ x: -0.5, y: -0.5 }, { x: 0.5, y: -0.5 }, { x: 0.5, y: 0.5 }, { x: -0.5, y: 0.5 }]
+    : gridType === "hex"
+      ? Array.from({ length: 6 }, (_, i) => ({
+        x: HEX_SIZE * Math.cos((Math.PI / 3) * i),
+        y: HEX_SIZE * Math.sin((Math.PI / 3) * i),
+      }))
+      : triangleCorners(coord, TRIANGLE_SIZE);
+  return offsets.map(({ x, y }) => ({ x: center.x + x, y: center.y + y }));
+};
+
+// Width available for the angel and labels inside a cell; a triangle's
+// inscribed circle is smaller than its side
+export const CELL_WIDTH: Record<GridType, number> = {
+  square: 1,
+  hex: HEX_SIZE,
+  triangle: TRIANGLE_SIZE / 2,
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// All cells whose centers fall inside the rectangle, padded by one cell so
+// partially visible cells at the edges are included
+export const getCellsInRect = (rect: Rect, gridType: GridType): Coord[] => {
+  const cells: Coord[] = [];
+  if (gridType === "hex") {
+    const minQ = Math.floor(rect.x / (1.5 * HEX_SIZE)) - 1;
+    const maxQ = Math.ceil((rect.x + rect.width) / (1.5 * HEX_SIZE)) + 1;
+    const rowHeight = Math.sqrt(3) * HEX_SIZE;
+    for (let q = minQ; q <= maxQ; q++) {
+      // y = rowHeight * (r + q / 2)
+      const minR = Math.floor(rect.y / rowHeight - q / 2) - 1;
+      const maxR = Math.ceil((rect.y + rect.height) / rowHeight - q / 2) + 1;
+      for (let r = minR; r <= maxR; r++) cells.push({ q, r });
+    }
+  } else if (gridType === "triangle") {
+    const halfSide = TRIANGLE_SIZE / 2;
+    for (let r = Math.floor(rect.y / TRIANGLE_HEIGHT) - 1; r <= Math.ceil((rect.y + rect.height) / TRIANGLE_HEIGHT) + 1; r++) {
+      for (let q = Math.floor(rect.x / halfSide) - 1; q <= Math.ceil((rect.x + rect.width) / halfSide) + 1; q++) {
+        cells.push({ q, r });
+      }
+    }
+  } else {
+    for (let r = Math.floor(rect.y) - 1; r <= Math.ceil(rect.y + rect.height) + 1; r++) {
+      for (let q = Math.floor(rect.x) - 1; q <= Math.ceil(rect.x + rect.width) + 1; q++) {
+        cells.push({ q, r });
+      }
+    }
+  }
+  return cells;
+};
+
+// Cell containing a point given in board units (inverse of cellCenter)
+export const pointToCell = (x: number, y: number, gridType: GridType): Coord => {
+  if (gridType === "square") {
+    return { q: Math.round(x), r: Math.round(y) };
+  }
+  if (gridType === "triangle") {
+    // Row band, then the bands of the two diagonal line families (see
+    // triangleBands); the column is the sum of the diagonal bands
+    const fx = x / TRIANGLE_SIZE;
+    const fy = y / TRIANGLE_SIZE;
+    const r = Math.floor(y / TRIANGLE_HEIGHT + 1 / 2);
+    const b = Math.floor(fx + fy / Math.sqrt(3) + 1 / 4);
+    const c = Math.ceil(fx - fy / Math.sqrt(3) - 1 / 4);
+    return { q: b + c, r };
+  }
+  // Fractional axial coordinates, then cube rounding
+  const fq = (2 / 3 * x) / HEX_SIZE;
+  const fr = (-1 / 3 * x + Math.sqrt(3) / 3 * y) / HEX_SIZE;
+  const fs = -fq - fr;
+  let q = Math.round(fq);
+  let r = Math.round(fr);
+  const s = Math.round(fs);
+  const dq = Math.abs(q - fq);
+  const dr = Math.abs(r - fr);
+  const ds = Math.abs(s - fs);
+  if (dq > dr && dq > ds) q = -r - s;
+  else if (dr > ds) r = -q - s;
+  return { q, r };
+};
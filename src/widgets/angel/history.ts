@@ -0,0 +1,33 @@
+import { GameState, Move, isTurnStart } from "./engine";
+
+// Move history for the Angel game. The widget keeps one engine state per
+// position, so undo, redo and browsing earlier moves never replay the game;
+// this module only names and groups the moves between them.
+
+// Notation: A(q,r) for an angel move, D(q,r) for a devil eat
+export const moveNotation = (move: Move) =>
+  `${move.player === "angel" ? "A" : "D"}(${move.coord.q},${move.coord.r})`;
+
+// Group moves into numbered rounds: an angel turn and the devil turn after
+// it, if any. positions[i] is the state each move was played from, which
+// tells where a turn of several moves starts.
+export const groupMovesIntoRounds = (moves: readonly Move[], positions: readonly GameState[]) => {
+  const rounds: { number: number; entries: { move: Move; index: number }[] }[] = [];
+  moves.forEach((move, index) => {
+    if ((move.player === "angel" && isTurnStart(positions[index])) || rounds.length === 0) {
+      rounds.push({ number: rounds.length + 1, entries: [] });
+    }
+    rounds[rounds.length - 1].entries.push({ move, index });
+  });
+  return rounds;
+};
+
+// Inverse of moveNotation; returns null for anything that isn't a move
+export const parseMoveNotation = (text: string): Move | null => {
+  const match = /^([AD])\((-?\d+),(-?\d+)\)$/.exec(text.trim());
+  if (!match) return null;
+  return {
+    player: match[1] === "A" ? "angel" : "devil",
+    coord: { q: Number(match[2]), r: Number(match[3]) },
+  };
+};
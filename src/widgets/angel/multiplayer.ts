@@ -0,0 +1,164 @@
+import { EMPTY_ANNOTATIONS } from "./annotations";
+import { GameState, Move, Turn, gameResult } from "./engine";
+import { moveNotation } from "./history";
+import { SavedGame, encodeGame, saveGame } from "./serialize";
+
+// Two-player games across windows. Peers in a room exchange the whole game
+// when they meet or when one of them starts a new game, and single moves in
+// between. The receiving side replays or checks everything against the
+// rules before it touches its own game.
+
+export type TransportKind = "broadcast" | "relay";
+
+export const TRANSPORT_DESCRIPTIONS: Record<TransportKind, string> = {
+  "broadcast": "Other tabs and windows of this browser (BroadcastChannel).",
+  "relay": "Other devices, through the relay on the server hosting this page.",
+};
+
+// Route of the relay (src/app/angelgame/relay/route.ts)
+export const RELAY_PATH = "/angelgame/relay";
+
+export type NetMessage =
+  | { type: "hello"; from: string; side: Turn } // joined the room
+  | { type: "welcome"; from: string; side: Turn; game: SavedGame } // reply to hello with the current game
+  | { type: "sync"; from: string; game: SavedGame } // replaces the game
+  | { type: "move"; from: string; index: number; move: string } // move notation, played from positions[index]
+  | { type: "resync"; from: string } // asks for a sync after a move didn't fit
+  | { type: "bye"; from: string };
+
+export interface Transport {
+  send: (message: NetMessage) => void;
+  close: () => void;
+}
+
+const isTurn = (value: unknown): value is Turn => value === "angel" || value === "devil";
+
+// Shape check for incoming messages. Games are left to loadGame, which
+// validates them fully.
+export const parseNetMessage = (data: unknown): NetMessage | null => {
+  if (typeof data !== "object" || data === null) return null;
+  const message = data as Partial<Record<string, unknown>>;
+  if (typeof message.from !== "string") return null;
+  const from = message.from;
+  const game = message.game as SavedGame;
+  switch (message.type) {
+    case "hello":
+      return isTurn(message.side) ? { type: "hello", from, side: message.side } : null;
+    case "welcome":
+      return isTurn(message.side) && typeof game === "object" && game !== null
+        ? { type: "welcome", from, side: message.side, game }
+        : null;
+    case "sync":
+      return typeof game === "object" && game !== null ? { type: "sync", from, game } : null;
+    case "move":
+      return Number.isInteger(message.index) && typeof message.move === "string"
+        ? { type: "move", from, index: message.index as number, move: message.move }
+        : null;
+    case "resync":
+    case "bye":
+      return { type: message.type, from };
+    default:
+      return null;
+  }
+};
+
+interface SharedGame {
+  moves: Move[];
+  positions: GameState[];
+}
+
+// The starting position and rules as a game code, with the eaten squares
+// sorted so that the same start always gives the same code
+const startCode = (start: GameState) => {
+  const game = saveGame([], [start], EMPTY_ANNOTATIONS, 0);
+  return encodeGame({ ...game, setup: { ...game.setup, eatenSquares: [...game.setup.eatenSquares].sort() } });
+};
+
+// Whether a whole game sent by the player of `sender` may replace ours.
+// It has to start where ours does and keep our moves up to the point where
+// only the sender's moves follow, so nobody can rewrite or drop the other
+// side's moves. A new game may replace one that is over or not started.
+export const acceptsSync = (local: SharedGame, incoming: SharedGame, sender: Turn): boolean => {
+  const localOver = gameResult(local.positions[local.positions.length - 1]) !== null;
+  if (incoming.moves.length === 0 && (local.moves.length === 0 || localOver)) return true;
+  if (startCode(local.positions[0]) !== startCode(incoming.positions[0])) return false;
+
+  let agreed = 0;
+  while (
+    agreed < local.moves.length &&
+    agreed < incoming.moves.length &&
+    moveNotation(local.moves[agreed]) === moveNotation(incoming.moves[agreed])
+  ) {
+    agreed++;
+  }
+  return local.moves.slice(agreed).every(move => move.player === sender);
+};
+
+const broadcastTransport = (room: string, onMessage: (message: NetMessage) => void): Transport => {
+  const channel = new BroadcastChannel(`angel-devil:${room}`);
+  channel.onmessage = (e: MessageEvent) => {
+    const message = parseNetMessage(e.data);
+    if (message) onMessage(message);
+  };
+  return {
+    send: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+// The relay streams a room's messages as server-sent events and takes new
+// ones by POST. It echoes messages back to their sender too.
+const relayTransport = (
+  room: string,
+  peer: string,
+  onMessage: (message: NetMessage) => void,
+  onError: (error: string) => void
+): Transport => {
+  const url = `${RELAY_PATH}?room=${encodeURIComponent(room)}`;
+  const post = (message: NetMessage) => {
+    fetch(url, { method: "POST", body: JSON.stringify(message), keepalive: true })
+      .catch(() => onError("could not reach the relay"));
+  };
+  // Messages wait until the stream is open and so in the room; otherwise the
+  // reply to our hello could go out before we are listening for it
+  let pending: NetMessage[] | null = [];
+  // The peer id keeps our place in the room when the browser reconnects
+  const events = new EventSource(`${url}&peer=${encodeURIComponent(peer)}`);
+  events.onopen = () => {
+    pending?.forEach(post);
+    pending = null;
+  };
+  events.onmessage = (e: MessageEvent<string>) => {
+    try {
+      const message = parseNetMessage(JSON.parse(e.data));
+      if (message) onMessage(message);
+    } catch {
+      // Not JSON; ignore
+    }
+  };
+  // The browser retries dropped streams, but not refused ones
+  events.onerror = () => onError(
+    events.readyState === EventSource.CLOSED
+      ? "the relay turned the connection down; the room may be full"
+      : "lost the connection to the relay, retrying…"
+  );
+  return {
+    send: message => {
+      if (pending) pending.push(message);
+      else post(message);
+    },
+    close: () => {
+      pending = null;
+      events.close();
+    },
+  };
+};
+
+export const openTransport = (
+  kind: TransportKind,
+  room: string,
+  peer: string,
+  onMessage: (message: NetMessage) => void,
+  onError: (error: string) => void
+): Transport =>
+  kind === "broadcast" ? broadcastTransport(room, onMessage) : relayTransport(room, peer, onMessage, onError);
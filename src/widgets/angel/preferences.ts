@@ -0,0 +1,124 @@
+import { AIStrategy, AI_STRATEGIES } from "./angelAI";
+import { DEVIL_STRATEGY_DESCRIPTIONS, DevilStrategy } from "./devilAI";
+import { GameSettings, createGame } from "./engine";
+import { EMPTY_ANNOTATIONS } from "./annotations";
+import { SavedGame, loadGame, saveGame } from "./serialize";
+
+// UI preferences and the game in progress, kept in local storage between
+// visits. Game settings are stored as an empty saved game, so they are
+// checked and upgraded by the save format's own loader.
+
+export type Renderer = "svg" | "canvas";
+
+export interface Preferences {
+  darkMode: boolean;
+  showCoordinates: boolean;
+  showAnalysis: boolean;
+  renderer: Renderer;
+  aiEnabled: boolean;
+  aiStrategy: AIStrategy;
+  devilAiEnabled: boolean;
+  devilStrategy: DevilStrategy;
+  devilDistance: number;
+  settings: GameSettings; // for new games
+  rememberGame: boolean; // keep the game in progress for the next visit
+}
+
+const PREFERENCES_KEY = "angel-devil:preferences";
+const LAST_GAME_KEY = "angel-devil:last-game";
+
+export const PREFERENCES_VERSION = 1;
+
+const DEVIL_STRATEGIES = Object.keys(DEVIL_STRATEGY_DESCRIPTIONS) as DevilStrategy[];
+
+type StoredPreferences = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades stored preferences from version n to n + 1; add
+// one whenever a field is renamed or reshaped, and bump the version. New
+// fields need none: missing or invalid fields fall back to the defaults.
+// Nothing was stored before version 1.
+const MIGRATIONS: Record<number, (stored: StoredPreferences) => StoredPreferences> = {};
+
+// Preferences stored by an earlier version, upgraded one version at a time.
+// Throws if a step is missing, so they are dropped rather than misread.
+const migrate = (stored: StoredPreferences, version: number): StoredPreferences => {
+  let upgraded = stored;
+  for (let v = version; v < PREFERENCES_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`no preferences migration from version ${v}`);
+    upgraded = step(upgraded);
+  }
+  return upgraded;
+};
+
+const storedSettings = (game: SavedGame, defaults: GameSettings): GameSettings => {
+  try {
+    return loadGame(game).positions[0].settings;
+  } catch {
+    return defaults;
+  }
+};
+
+export const loadPreferences = (defaults: Preferences): Preferences => {
+  let stored: StoredPreferences;
+  try {
+    const data = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? "null");
+    // Preferences from a newer version of the page are left alone
+    if (typeof data !== "object" || data === null || !Number.isInteger(data.version) ||
+      data.version < 1 || data.version > PREFERENCES_VERSION) {
+      return defaults;
+    }
+    stored = migrate(data, data.version);
+  } catch {
+    return defaults;
+  }
+
+  const pick = <T,>(value: unknown, isValid: (value: unknown) => boolean, fallback: T): T =>
+    isValid(value) ? (value as T) : fallback;
+  const isBoolean = (value: unknown) => typeof value === "boolean";
+
+  return {
+    darkMode: pick(stored.darkMode, isBoolean, defaults.darkMode),
+    showCoordinates: pick(stored.showCoordinates, isBoolean, defaults.showCoordinates),
+    showAnalysis: pick(stored.showAnalysis, isBoolean, defaults.showAnalysis),
+    renderer: pick(stored.renderer, value => value === "svg" || value === "canvas", defaults.renderer),
+    aiEnabled: pick(stored.aiEnabled, isBoolean, defaults.aiEnabled),
+    aiStrategy: pick(stored.aiStrategy, value => AI_STRATEGIES.includes(value as AIStrategy), defaults.aiStrategy),
+    devilAiEnabled: pick(stored.devilAiEnabled, isBoolean, defaults.devilAiEnabled),
+    devilStrategy: pick(stored.devilStrategy, value => DEVIL_STRATEGIES.includes(value as DevilStrategy), defaults.devilStrategy),
+    devilDistance: pick(stored.devilDistance, value => Number.isInteger(value) && (value as number) >= 1, defaults.devilDistance),
+    settings: storedSettings(stored.settings as SavedGame, defaults.settings),
+    rememberGame: pick(stored.rememberGame, isBoolean, defaults.rememberGame),
+  };
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  const { settings, ...rest } = preferences;
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+      version: PREFERENCES_VERSION,
+      ...rest,
+      settings: saveGame([], [createGame(settings)], EMPTY_ANNOTATIONS, 0),
+    }));
+  } catch {
+    // Storage full or disabled; preferences just won't persist
+  }
+};
+
+// The game left in progress, still unchecked; loadGame validates it
+export const loadLastGame = (): SavedGame | null => {
+  try {
+    return JSON.parse(localStorage.getItem(LAST_GAME_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+export const saveLastGame = (game: SavedGame | null) => {
+  try {
+    if (game) localStorage.setItem(LAST_GAME_KEY, JSON.stringify(game));
+    else localStorage.removeItem(LAST_GAME_KEY);
+  } catch {
+    // As above
+  }
+};
@@ -0,0 +1,122 @@
+import {
+  DEFAULT_TURN_RULES,
+  GameSettings,
+  GameSetup,
+  GameState,
+  Move,
+  Turn,
+  completedAngelTurns,
+  gameResult,
+} from "./engine";
+import { DEFAULT_METRIC, GridType, coordKey, getRing } from "./geometry";
+
+// Built-in puzzles: a starting position, the side the player takes and a
+// target to meet. The computer plays the other side. Every target was
+// checked by exhaustive search to be reachable against any defence.
+
+export type PuzzleGoal =
+  | { type: "trap"; eats: number } // devil: trap the angel using at most this many eats
+  | { type: "survive"; turns: number }; // angel: complete this many turns
+
+export type PuzzleStatus = "playing" | "solved" | "failed";
+
+export interface Puzzle {
+  id: string;
+  name: string;
+  description: string;
+  settings: GameSettings;
+  setup: GameSetup;
+  goal: PuzzleGoal;
+}
+
+const puzzleSettings = (gridType: GridType): GameSettings => ({
+  gridType,
+  angelPower: 1,
+  angelType: "regular",
+  winRule: { type: "none" },
+  metric: DEFAULT_METRIC,
+  turnRules: DEFAULT_TURN_RULES,
+});
+
+// Every cell at the given distance from the origin
+const ringKeys = (gridType: GridType, radius: number) =>
+  getRing({ q: 0, r: 0 }, radius, gridType).map(coordKey);
+
+export const PUZZLES: Puzzle[] = [
+  {
+    id: "pen-the-king",
+    name: "Pen the King",
+    description: "A power-1 angel sits in a walled 3x3 pen. Trap it in 6 eats.",
+    settings: puzzleSettings("square"),
+    setup: { angelPos: { q: 0, r: 0 }, eatenSquares: ringKeys("square", 2), firstTurn: "devil" },
+    goal: { type: "trap", eats: 6 },
+  },
+  {
+    id: "plug-the-gap",
+    name: "Plug the Gap",
+    description: "The pen has a hole and the angel moves first. Trap it in 6 eats before it gets out.",
+    settings: puzzleSettings("square"),
+    setup: {
+      angelPos: { q: -1, r: 0 },
+      eatenSquares: ringKeys("square", 2).filter(key => key !== "2,0"),
+      firstTurn: "angel",
+    },
+    goal: { type: "trap", eats: 6 },
+  },
+  {
+    id: "hex-pen",
+    name: "Hex Pen",
+    description: "A power-1 angel in a pen of seven hexes. Trap it in 5 eats.",
+    settings: puzzleSettings("hex"),
+    setup: { angelPos: { q: 0, r: 0 }, eatenSquares: ringKeys("hex", 2), firstTurn: "devil" },
+    goal: { type: "trap", eats: 5 },
+  },
+  {
+    id: "triangle-pen",
+    name: "Triangle Pen",
+    description: "A power-1 angel among triangles, walled in three steps out. Trap it in 3 eats.",
+    settings: puzzleSettings("triangle"),
+    setup: { angelPos: { q: 0, r: 0 }, eatenSquares: ringKeys("triangle", 3), firstTurn: "devil" },
+    goal: { type: "trap", eats: 3 },
+  },
+  {
+    id: "last-stand",
+    name: "Last Stand",
+    description: "Play the angel in the walled 3x3 pen. Complete 5 turns before the devil traps you.",
+    settings: puzzleSettings("square"),
+    setup: { angelPos: { q: 0, r: 0 }, eatenSquares: ringKeys("square", 2), firstTurn: "devil" },
+    goal: { type: "survive", turns: 5 },
+  },
+];
+
+// The side the player takes
+export const puzzlePlayer = (puzzle: Puzzle): Turn =>
+  puzzle.goal.type === "trap" ? "devil" : "angel";
+
+export const describeGoal = (goal: PuzzleGoal): string => {
+  switch (goal.type) {
+    case "trap":
+      return `Trap the angel in ${goal.eats} eat${goal.eats === 1 ? "" : "s"}`;
+    case "survive":
+      return `Complete ${goal.turns} turn${goal.turns === 1 ? "" : "s"} as the angel`;
+  }
+};
+
+// Whether the moves played from the puzzle's setup meet its goal, have
+// failed it, or neither yet
+export const puzzleStatus = (puzzle: Puzzle, moves: readonly Move[], state: GameState): PuzzleStatus => {
+  const result = gameResult(state);
+  const { goal } = puzzle;
+  switch (goal.type) {
+    case "trap": {
+      if (result) return result.winner === "devil" ? "solved" : "failed";
+      const eats = moves.filter(move => move.player === "devil").length;
+      // Out of eats with the angel still free to move
+      if (eats > goal.eats || (eats === goal.eats && state.currentTurn === "angel")) return "failed";
+      return "playing";
+    }
+    case "survive":
+      if (completedAngelTurns(state) >= goal.turns || result?.winner === "angel") return "solved";
+      return result ? "failed" : "playing";
+  }
+};
@@ -0,0 +1,28 @@
+// Seeded random numbers, so computer games can be reproduced exactly
+
+export type Rng = () => number; // uniform in [0, 1), like Math.random
+
+// mulberry32: tiny and fast, and plenty random enough for game AIs
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 32-bit FNV-1a hash, for deriving seeds from names
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const randomItem = <T>(items: readonly T[], rng: Rng): T =>
+  items[Math.floor(rng() * items.length)];
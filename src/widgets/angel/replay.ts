@@ -0,0 +1,39 @@
+import { GameState } from "./engine";
+import { cellCenter } from "./geometry";
+
+// Replaying a recorded game: playback speed, and how the move into each
+// position is animated (the angel glides from its old square, eaten squares
+// flash)
+
+// Playback speed in moves per second
+export const REPLAY_SPEED = { min: 0.5, max: 4, step: 0.5, initial: 1 };
+
+// Animations take most of the time between moves, up to this long
+const MAX_ANIMATION_MS = 600;
+
+export const animationDuration = (speed: number) => Math.min(MAX_ANIMATION_MS, 800 / speed);
+
+// Eaten squares blink this many times before staying eaten
+const FLASHES = 2;
+
+export interface MoveAnimation {
+  angelPoint: { x: number; y: number } | null; // drawn here instead of on its square
+  flashing: ReadonlySet<string>; // coord keys eaten by the move
+  flashOn: boolean;
+}
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t));
+
+// The move from `before` to `after`, `progress` of the way through (0 to 1)
+export const animateMove = (before: GameState, after: GameState, progress: number): MoveAnimation => {
+  const { gridType } = after.settings;
+  const from = cellCenter(before.angelPos, gridType);
+  const to = cellCenter(after.angelPos, gridType);
+  const t = easeInOut(Math.min(1, Math.max(0, progress)));
+  const moved = from.x !== to.x || from.y !== to.y;
+  return {
+    angelPoint: moved && progress < 1 ? { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t } : null,
+    flashing: new Set([...after.eatenSquares].filter(key => !before.eatenSquares.has(key))),
+    flashOn: progress < 1 && Math.floor(progress * FLASHES * 2) % 2 === 0,
+  };
+};
@@ -0,0 +1,287 @@
+import { GameState, angelDestinations } from "./engine";
+import { Coord, Direction, coordKey, keyboardStep, parseCoordKey, sameCoord } from "./geometry";
+
+// Angel strategies after the two published proofs that an angel of some
+// power wins: Máthé's for power 2 and Bowditch's for power 4. Both have the
+// angel shadow a walker: Máthé's runner on the grid lines between squares,
+// Bowditch's lady on the squares themselves. The walker heads east, and once
+// something is in the way it follows it with the obstacle on its left until
+// it has turned back to east. The angel flies to the furthest point of the
+// walk it can reach each turn.
+//
+// Máthé's angel is lazy: like the very nice angel type, it never lands on a
+// square it could have landed on in an earlier turn. Eating such a spent
+// square is then wasted on it, so the devil may be taken to be nice: the
+// angel ignores those eats, as if the devil had passed. A grid line is
+// blocked when a square beside it was eaten and not wasted, and the runner
+// keeps blocked lines on its left.
+
+export type RunnerStrategy = "mathe" | "bowditch";
+
+export const RUNNER_STRATEGIES: RunnerStrategy[] = ["mathe", "bowditch"];
+
+export const isRunnerStrategy = (strategy: string): strategy is RunnerStrategy =>
+  RUNNER_STRATEGIES.includes(strategy as RunnerStrategy);
+
+// Smallest power each proof is about
+export const RUNNER_MIN_POWER: Record<RunnerStrategy, number> = {
+  "mathe": 2,
+  "bowditch": 4,
+};
+
+export interface RunnerState {
+  // Máthé: a corner of the squares, (q, r) being the top-left corner of
+  // square (q, r). Bowditch: a square.
+  at: Coord;
+  heading: Direction;
+  turning: number; // quarter turns since it last headed east, left positive
+  following: boolean; // keeping an obstacle on its left
+  steps: number;
+  restarts: number; // times it started over where the angel is
+}
+
+// A runner together with the squares the angel had spent by then
+export interface RunnerView {
+  runner: RunnerState;
+  isSpent: (square: Coord) => boolean;
+}
+
+const NOTHING_SPENT = () => false;
+
+// Quarter turns to the left (anticlockwise on screen) move one place on
+const HEADINGS: Direction[] = ["right", "up", "left", "down"];
+
+const turn = (heading: Direction, quarters: number): Direction =>
+  HEADINGS[(HEADINGS.indexOf(heading) + quarters + 4) % 4];
+
+// The squares to the left and right of the edge leaving a corner
+export const edgeSides = (corner: Coord, heading: Direction): { left: Coord; right: Coord } => {
+  const { q, r } = corner;
+  switch (heading) {
+    case "right":
+      return { left: { q, r: r - 1 }, right: { q, r } };
+    case "left":
+      return { left: { q: q - 1, r }, right: { q: q - 1, r: r - 1 } };
+    case "up":
+      return { left: { q: q - 1, r: r - 1 }, right: { q, r: r - 1 } };
+    case "down":
+      return { left: { q, r }, right: { q: q - 1, r } };
+  }
+};
+
+// Spent squares are never eaten first, as the angel could not land there,
+// so an eaten one was wasted
+const isBlockedSquare = (state: GameState, square: Coord, isSpent: (square: Coord) => boolean) =>
+  state.eatenSquares.has(coordKey(square)) && !isSpent(square);
+
+// Máthé: a grid line is blocked when a square beside it was eaten to some use
+export const isEdgeBlocked = (
+  state: GameState,
+  corner: Coord,
+  heading: Direction,
+  isSpent: (square: Coord) => boolean
+): boolean => {
+  const { left, right } = edgeSides(corner, heading);
+  return isBlockedSquare(state, left, isSpent) || isBlockedSquare(state, right, isSpent);
+};
+
+const isOpen = (
+  strategy: RunnerStrategy,
+  state: GameState,
+  at: Coord,
+  heading: Direction,
+  isSpent: (square: Coord) => boolean
+): boolean =>
+  strategy === "mathe"
+    ? !isEdgeBlocked(state, at, heading, isSpent)
+    : !state.eatenSquares.has(coordKey(keyboardStep(at, heading, "square")));
+
+// Where a runner starts next to the angel: the corner below and to the
+// right of its square, or the square itself
+export const startRunner = (strategy: RunnerStrategy, angelPos: Coord, restarts: number = 0): RunnerState => ({
+  at: strategy === "mathe" ? { q: angelPos.q + 1, r: angelPos.r + 1 } : angelPos,
+  heading: "right",
+  turning: 0,
+  following: false,
+  steps: 0,
+  restarts,
+});
+
+// One step of the walk, or null when it is walled in on all sides
+const stepRunner = (
+  strategy: RunnerStrategy,
+  state: GameState,
+  runner: RunnerState,
+  isSpent: (square: Coord) => boolean
+): RunnerState | null => {
+  // Heading east, or following: left first, then straight, right and back
+  const turns = runner.following ? [1, 0, -1, -2] : [0, -1, -2, -3];
+  for (const quarters of turns) {
+    const heading = turn(runner.heading, quarters);
+    if (!isOpen(strategy, state, runner.at, heading, isSpent)) continue;
+    const turning = runner.turning + quarters;
+    return {
+      ...runner,
+      at: keyboardStep(runner.at, heading, "square"),
+      heading,
+      turning,
+      following: turning !== 0,
+      steps: runner.steps + 1,
+    };
+  }
+  return null;
+};
+
+// Squares the angel can stand on to shadow the runner, best first: beside
+// the edge it just walked (right, then left), then the rest at the corner
+const shadowSquares = (strategy: RunnerStrategy, runner: RunnerState): Coord[] => {
+  if (strategy === "bowditch") return [runner.at];
+  const { q, r } = runner.at;
+  const last = edgeSides(runner.at, turn(runner.heading, 2));
+  return [last.left, last.right, { q, r }, { q: q - 1, r }, { q, r: r - 1 }, { q: q - 1, r: r - 1 }];
+};
+
+export interface RunnerPlan {
+  move: Coord | null;
+  runner: RunnerState; // after the move
+}
+
+// The walk looks no further than this many steps per angel power
+const STEPS_PER_POWER = 4;
+
+// Walk the runner on as far as the angel can follow it this move. If it
+// can't follow at all, the runner starts over from the square the angel
+// flies to instead, which is the nearest valid one to the east. The lazy
+// angel only lands on spent squares when there is nothing else.
+export const planRunner = (strategy: RunnerStrategy, state: GameState, view: RunnerView): RunnerPlan => {
+  const { runner, isSpent } = view;
+  const destinations = angelDestinations(state);
+  const fresh = destinations.filter(coord => !isSpent(coord));
+  const landing = fresh.length > 0 ? fresh : destinations;
+  const valid = new Set(landing.map(coordKey));
+  let plan: RunnerPlan | null = null;
+  let current: RunnerState | null = runner;
+  for (let i = 0; i < STEPS_PER_POWER * state.settings.angelPower; i++) {
+    current = stepRunner(strategy, state, current, isSpent);
+    if (!current) break;
+    // The walk may pass where the angel can't land (its own square)
+    const square = shadowSquares(strategy, current).find(coord => valid.has(coordKey(coord)));
+    if (square) plan = { move: square, runner: current };
+  }
+  if (plan) return plan;
+
+  if (landing.length === 0) return { move: null, runner };
+  const east = landing.reduce((best, coord) =>
+    coord.q - Math.abs(coord.r - state.angelPos.r) > best.q - Math.abs(best.r - state.angelPos.r) ? coord : best
+  );
+  return { move: east, runner: startRunner(strategy, east, runner.restarts + 1) };
+};
+
+// The runner before the move from each position of a game, and for Máthé
+// the position from which each spent square was first within reach
+export interface RunnerTrail {
+  strategy: RunnerStrategy;
+  history: readonly GameState[];
+  runners: RunnerState[]; // runners[i] goes with history[i]
+  spentSince: Map<string, number>;
+}
+
+// The runner at history[index], and the squares spent before it
+export const runnerView = (trail: RunnerTrail, index: number): RunnerView => ({
+  runner: trail.runners[index],
+  isSpent: trail.strategy === "mathe"
+    ? square => (trail.spentSince.get(coordKey(square)) ?? Infinity) < index
+    : NOTHING_SPENT,
+});
+
+// The trail for `history`, reusing the part of `trail` for the positions
+// the two share, so a new move costs one step of the walk. Undo and
+// branches only drop the steps past where the games part. The spent
+// squares are shared with `trail`, which is not to be used afterwards.
+export const extendRunnerTrail = (
+  trail: RunnerTrail | null,
+  strategy: RunnerStrategy,
+  history: readonly GameState[]
+): RunnerTrail => {
+  const previous = trail && trail.strategy === strategy ? trail : null;
+  let shared = 0;
+  if (previous) {
+    const limit = Math.min(previous.runners.length, history.length);
+    while (shared < limit && previous.history[shared] === history[shared]) shared++;
+  }
+  if (!previous || shared === 0) {
+    return extendRunnerTrail(
+      { strategy, history, runners: [startRunner(strategy, history[0].angelPos)], spentSince: new Map() },
+      strategy,
+      history
+    );
+  }
+
+  // Squares are spent by the position after the one they were reached
+  // from, so those reached from the last shared position are redone
+  const { spentSince } = previous;
+  for (const [key, since] of spentSince) {
+    if (since >= shared - 1) spentSince.delete(key);
+  }
+  const extended: RunnerTrail = { strategy, history, runners: previous.runners.slice(0, shared), spentSince };
+  for (let i = shared; i < history.length; i++) {
+    const before = history[i - 1];
+    const after = history[i];
+    const view = runnerView(extended, i - 1);
+    let runner = view.runner;
+    if (before.currentTurn === "angel") {
+      const { move, runner: next } = planRunner(strategy, before, view);
+      // It walks on if the angel went where it planned, and starts over
+      // wherever the angel went otherwise (a human or another strategy)
+      runner = move && sameCoord(move, after.angelPos)
+        ? next
+        : startRunner(strategy, after.angelPos, runner.restarts + 1);
+      if (strategy === "mathe") {
+        for (const square of [before.angelPos, ...angelDestinations(before)]) {
+          const key = coordKey(square);
+          if (!spentSince.has(key)) spentSince.set(key, i - 1);
+        }
+      }
+    }
+    extended.runners.push(runner);
+  }
+  return extended;
+};
+
+// The proofs are about the square grid and their own powers
+export const runnerSupported = (strategy: RunnerStrategy, state: GameState): boolean =>
+  state.settings.gridType === "square" && state.settings.angelPower >= RUNNER_MIN_POWER[strategy];
+
+// Directions from a corner along blocked grid lines
+export const blockedEdgesAt = (state: GameState, corner: Coord, isSpent: (square: Coord) => boolean): Direction[] =>
+  HEADINGS.filter(heading => isEdgeBlocked(state, corner, heading, isSpent));
+
+export interface MatheBookkeeping {
+  spentSquares: number; // squares the lazy angel won't land on again
+  wastedEats: number; // eaten after they were spent, and ignored
+  blockedEdges: number; // grid lines beside the other eaten squares
+}
+
+// Máthé's counts at history[index] of the trail
+export const matheBookkeeping = (trail: RunnerTrail, index: number): MatheBookkeeping => {
+  const state = trail.history[index];
+  const { isSpent } = runnerView(trail, index);
+  let spentSquares = 0;
+  for (const since of trail.spentSince.values()) {
+    if (since < index) spentSquares++;
+  }
+  // Horizontal lines by the corner at their left end, vertical ones by the
+  // corner at their top
+  const edges = new Set<string>();
+  let wastedEats = 0;
+  for (const key of state.eatenSquares) {
+    const square = parseCoordKey(key);
+    if (isSpent(square)) {
+      wastedEats++;
+      continue;
+    }
+    const { q, r } = square;
+    edges.add(`h${q},${r}`).add(`h${q},${r + 1}`).add(`v${q},${r}`).add(`v${q + 1},${r}`);
+  }
+  return { spentSquares, wastedEats, blockedEdges: edges.size };
+};
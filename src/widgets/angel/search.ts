@@ -0,0 +1,153 @@
+import {
+  GameState,
+  angelDestinations,
+  applyMove,
+  eatenBy,
+  gameResult,
+  isAngelGoal,
+  isTurnStart,
+  legalMoves,
+} from "./engine";
+import { Coord, coordKey, euclideanDistance, moveReach } from "./geometry";
+
+// Lookahead Angel: iterative-deepening minimax with alpha-beta pruning.
+// Positions are scored by the size of the region the angel can still fly
+// around in, so it steers away from walls long before they close.
+
+export interface SearchOptions {
+  maxDepth: number; // rounds (angel move + devil reply) to look ahead
+  timeBudgetMs: number; // stop deepening after this long; Infinity for depth only
+  devilBranching: number; // devil replies considered at each node
+  regionCap: number; // stop counting the escape region beyond this many squares
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  maxDepth: 3,
+  timeBudgetMs: 1000,
+  devilBranching: 6,
+  regionCap: 150,
+};
+
+export interface SearchResult {
+  move: Coord | null;
+  score: number;
+  depth: number; // deepest fully searched depth
+  nodes: number;
+}
+
+const WIN_SCORE = 1_000_000;
+const REGION_WEIGHT = 10;
+
+// Number of squares the angel can reach by a chain of its own moves, up to
+// `cap`. Counts as open (the cap) once it can reach its goal.
+export const escapeRegionSize = (state: GameState, cap: number): number => {
+  const seen = new Set([coordKey(state.angelPos)]);
+  const queue = [state.angelPos];
+  for (let i = 0; i < queue.length && seen.size < cap; i++) {
+    for (const next of angelDestinations(state, queue[i])) {
+      const key = coordKey(next);
+      if (seen.has(key)) continue;
+      if (isAngelGoal(next, state.settings)) return cap;
+      seen.add(key);
+      queue.push(next);
+    }
+  }
+  return Math.min(seen.size - 1, cap);
+};
+
+const evaluate = (state: GameState, options: SearchOptions): number =>
+  escapeRegionSize(state, options.regionCap) * REGION_WEIGHT +
+  angelDestinations(state).length +
+  euclideanDistance(state.angelPos) * 0.1;
+
+// Devil replies worth searching: the eats that leave the angel fewest moves
+const devilCandidates = (state: GameState, branching: number): Coord[] =>
+  legalMoves(state, moveReach(state.settings.angelPower, state.settings.metric) + 1)
+    .map(({ coord }) => {
+      const eaten = new Set(state.eatenSquares);
+      eatenBy(state, coord).forEach(cell => eaten.add(coordKey(cell)));
+      return { coord, moves: angelDestinations(state, state.angelPos, eaten).length };
+    })
+    .sort((a, b) => a.moves - b.moves)
+    .slice(0, branching)
+    .map(({ coord }) => coord);
+
+// Rounds left to search once play has reached `next`
+const depthAfter = (next: GameState, depth: number) =>
+  next.currentTurn === "angel" && isTurnStart(next) ? depth - 1 : depth;
+
+interface SearchContext {
+  options: SearchOptions;
+  deadline: number;
+  nodes: number;
+  timedOut: boolean;
+}
+
+// Minimax value of a state for the angel. `depth` counts the rounds still
+// to search; it drops whenever a new angel turn starts. With handicaps a
+// player may move several times in a row, so the side to move is read from
+// each state rather than alternated.
+const search = (state: GameState, depth: number, alpha: number, beta: number, ctx: SearchContext): number => {
+  ctx.nodes++;
+  if (ctx.timedOut || (ctx.nodes % 256 === 0 && Date.now() > ctx.deadline)) {
+    ctx.timedOut = true;
+    return 0;
+  }
+  const result = gameResult(state);
+  // Prefer quick wins and slow losses
+  if (result) return result.winner === "angel" ? WIN_SCORE + depth : -WIN_SCORE - depth;
+  if (depth === 0 && state.currentTurn === "angel") return evaluate(state, ctx.options);
+
+  const searchFrom = (next: GameState) => search(next, depthAfter(next, depth), alpha, beta, ctx);
+
+  if (state.currentTurn === "angel") {
+    let best = -Infinity;
+    for (const coord of angelDestinations(state)) {
+      best = Math.max(best, searchFrom(applyMove(state, { player: "angel", coord })));
+      alpha = Math.max(alpha, best);
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  let best = Infinity;
+  for (const coord of devilCandidates(state, ctx.options.devilBranching)) {
+    best = Math.min(best, searchFrom(applyMove(state, { player: "devil", coord })));
+    beta = Math.min(beta, best);
+    if (alpha >= beta) break;
+  }
+  return best;
+};
+
+// Best angel move from this state, deepening one round at a time until the
+// depth limit or the time budget runs out
+export const searchAngelMove = (state: GameState, options: SearchOptions = DEFAULT_SEARCH_OPTIONS): SearchResult => {
+  const ctx: SearchContext = {
+    options,
+    deadline: Date.now() + options.timeBudgetMs,
+    nodes: 0,
+    timedOut: false,
+  };
+  let moves = angelDestinations(state).map(coord => ({ coord, score: 0 }));
+  let best: SearchResult = { move: moves[0]?.coord ?? null, score: 0, depth: 0, nodes: 0 };
+  if (moves.length <= 1) return best;
+
+  for (let depth = 1; depth <= options.maxDepth; depth++) {
+    const scored: { coord: Coord; score: number }[] = [];
+    let alpha = -Infinity;
+    for (const { coord } of moves) {
+      const next = applyMove(state, { player: "angel", coord });
+      const score = search(next, depthAfter(next, depth), alpha, Infinity, ctx);
+      if (ctx.timedOut) break;
+      scored.push({ coord, score });
+      alpha = Math.max(alpha, score);
+    }
+    if (ctx.timedOut) break;
+
+    // Search the best moves first next time, so pruning cuts more
+    moves = scored.sort((a, b) => b.score - a.score);
+    best = { move: moves[0].coord, score: moves[0].score, depth, nodes: ctx.nodes };
+    if (Math.abs(best.score) >= WIN_SCORE) break;
+  }
+  return { ...best, nodes: ctx.nodes };
+};
@@ -0,0 +1,22 @@
+import { GameState } from "./engine";
+import { SearchOptions, SearchResult, searchAngelMove } from "./search";
+
+// Web Worker entry for the lookahead Angel, so long searches don't block
+// the page. Game states survive structured cloning (Sets included).
+
+export interface SearchRequest {
+  id: number;
+  state: GameState;
+  options: SearchOptions;
+}
+
+export interface SearchResponse {
+  id: number;
+  result: SearchResult;
+}
+
+addEventListener("message", (e: MessageEvent<SearchRequest>) => {
+  const { id, state, options } = e.data;
+  const response: SearchResponse = { id, result: searchAngelMove(state, options) };
+  postMessage(response);
+});
@@ -0,0 +1,459 @@
+import { DEFAULT_METRIC, GRID_TYPES, GridType, MAX_LEAP, MoveMetric, coordKey, isCoordKey } from "./geometry";
+import {
+  ANGEL_TYPES,
+  AngelType,
+  AngelWinRule,
+  DEFAULT_SETUP,
+  DEFAULT_TURN_RULES,
+  EAT_SHAPES,
+  EatShape,
+  GameSettings,
+  GameSetup,
+  GameState,
+  MAX_TURN_ACTIONS,
+  Move,
+  TurnRules,
+  gameSetup,
+  makeWinRule,
+  replayMoves,
+  winRuleValue,
+} from "./engine";
+import { moveNotation, parseMoveNotation } from "./history";
+import {
+  Annotations,
+  COLOR_PATTERN,
+  EMPTY_ANNOTATIONS,
+  MAX_LAYERS,
+  MAX_LAYER_NAME,
+  MAX_NOTE_LENGTH,
+  legacyAnnotations,
+} from "./annotations";
+
+// Save/load of Angel games as versioned JSON documents and compact URL codes
+
+export const SAVE_FORMAT = "angel-game";
+// Version history:
+//   1: grid type, power, angel type, moves, highlights
+//   2: adds the angel's win rule (version 1 games have none)
+//   3: adds the move metric (older games use Chebyshev distance)
+//   4: adds the turn rules (older games have one action per turn)
+//   5: adds the starting setup (older games start on an empty board)
+//   6: replaces highlights with highlight layers and adds cell notes
+export const SAVE_FORMAT_VERSION = 6;
+
+export interface SavedLayer {
+  name: string;
+  color: string;
+  visible: boolean;
+  squares: string[]; // coord keys
+}
+
+export interface SavedGame {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  gridType: GridType;
+  angelPower: number;
+  angelType: AngelType;
+  winRule: AngelWinRule;
+  metric: MoveMetric;
+  turnRules: TurnRules;
+  setup: GameSetup;
+  moves: string[]; // in move notation, e.g. "A(2,-1)", "D(3,0)"
+  eatenSquares?: string[]; // coord keys after the last move, checked on load
+  highlights?: string[]; // coord keys; before version 6, loaded as one layer
+  layers: SavedLayer[];
+  notes: Record<string, string>; // coord key -> text
+  cursor: number; // index of the position being viewed
+}
+
+export interface LoadedGame {
+  moves: Move[];
+  positions: GameState[]; // positions[0] holds the game's settings
+  annotations: Annotations;
+  cursor: number;
+}
+
+const saveLayers = (annotations: Annotations): SavedLayer[] =>
+  annotations.layers.map(({ name, color, visible, squares }) => ({ name, color, visible, squares: [...squares] }));
+
+export const saveGame = (
+  moves: Move[],
+  positions: GameState[],
+  annotations: Annotations,
+  cursor: number
+): SavedGame => ({
+  format: SAVE_FORMAT,
+  version: SAVE_FORMAT_VERSION,
+  gridType: positions[0].settings.gridType,
+  angelPower: positions[0].settings.angelPower,
+  angelType: positions[0].settings.angelType,
+  winRule: positions[0].settings.winRule,
+  metric: positions[0].settings.metric,
+  turnRules: positions[0].settings.turnRules,
+  setup: gameSetup(positions[0]),
+  moves: moves.map(moveNotation),
+  eatenSquares: [...positions[positions.length - 1].eatenSquares],
+  layers: saveLayers(annotations),
+  notes: Object.fromEntries(annotations.notes),
+  cursor,
+});
+
+const WIN_RULE_TYPES: AngelWinRule["type"][] = ["none", "survive", "distance", "escape"];
+
+const parseWinRule = (value: unknown): AngelWinRule => {
+  if (typeof value !== "object" || value === null) throw new Error("invalid win rule");
+  const rule = value as AngelWinRule;
+  if (!WIN_RULE_TYPES.includes(rule.type)) throw new Error("invalid win rule");
+  const parsed = makeWinRule(rule.type, Number(winRuleValue(rule)));
+  if (parsed.type !== "none" && !(Number.isInteger(winRuleValue(parsed)) && winRuleValue(parsed) > 0)) {
+    throw new Error("invalid win rule");
+  }
+  return parsed;
+};
+
+const parseMetric = (value: unknown): MoveMetric => {
+  if (typeof value !== "object" || value === null) throw new Error("invalid move metric");
+  const metric = value as MoveMetric;
+  switch (metric.type) {
+    case "chebyshev":
+    case "manhattan":
+    case "euclidean":
+      return { type: metric.type };
+    case "leaper": {
+      const { a, b } = metric;
+      if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < 1 || a > MAX_LEAP || b > MAX_LEAP) {
+        throw new Error("invalid move metric");
+      }
+      return { type: "leaper", a, b };
+    }
+    default:
+      throw new Error("invalid move metric");
+  }
+};
+
+const parseTurnRules = (value: unknown): TurnRules => {
+  if (typeof value !== "object" || value === null) throw new Error("invalid turn rules");
+  const rules = value as TurnRules;
+  const isCount = (n: unknown) => typeof n === "number" && Number.isInteger(n) && n >= 1 && n <= MAX_TURN_ACTIONS;
+  if (!isCount(rules.angelMoves) || !isCount(rules.devilEats) || !isCount(rules.devilEvery) ||
+    !EAT_SHAPES.includes(rules.eatShape)) {
+    throw new Error("invalid turn rules");
+  }
+  const { angelMoves, devilEats, devilEvery, eatShape } = rules;
+  return { angelMoves, devilEats, devilEvery, eatShape };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+const parseSetup = (value: unknown): GameSetup => {
+  if (typeof value !== "object" || value === null) throw new Error("invalid setup");
+  const { angelPos, eatenSquares, firstTurn } = value as Partial<GameSetup>;
+  if (typeof angelPos !== "object" || angelPos === null || !Number.isInteger(angelPos.q) || !Number.isInteger(angelPos.r)) {
+    throw new Error("invalid setup");
+  }
+  if (!isStringArray(eatenSquares) || !eatenSquares.every(isCoordKey)) {
+    throw new Error("invalid setup");
+  }
+  if (firstTurn !== "angel" && firstTurn !== "devil") {
+    throw new Error("invalid setup");
+  }
+  return { angelPos: { q: angelPos.q, r: angelPos.r }, eatenSquares: [...eatenSquares], firstTurn };
+};
+
+const isCoordKeyArray = (value: unknown): value is string[] =>
+  isStringArray(value) && value.every(isCoordKey);
+
+const parseAnnotations = (layers: unknown, notes: unknown): Annotations => {
+  if (!Array.isArray(layers) || layers.length > MAX_LAYERS) throw new Error("invalid highlight layers");
+  const parsedLayers = layers.map((value: unknown, i) => {
+    if (typeof value !== "object" || value === null) throw new Error("invalid highlight layers");
+    const { name, color, visible, squares } = value as Partial<SavedLayer>;
+    if (typeof name !== "string" || name.length > MAX_LAYER_NAME ||
+      typeof color !== "string" || !COLOR_PATTERN.test(color) ||
+      typeof visible !== "boolean" || !isCoordKeyArray(squares)) {
+      throw new Error("invalid highlight layers");
+    }
+    return { id: i + 1, name, color, visible, squares: new Set(squares) };
+  });
+
+  if (typeof notes !== "object" || notes === null || Array.isArray(notes)) throw new Error("invalid notes");
+  const entries = Object.entries(notes as Record<string, unknown>);
+  if (!entries.every(([key, text]) =>
+    isCoordKey(key) && typeof text === "string" && text.length <= MAX_NOTE_LENGTH)) {
+    throw new Error("invalid notes");
+  }
+
+  return {
+    layers: parsedLayers.length > 0 ? parsedLayers : EMPTY_ANNOTATIONS.layers,
+    notes: new Map(entries as [string, string][]),
+  };
+};
+
+// Validate a parsed document and replay its moves. Throws if the document is
+// malformed or the moves are not a legal game.
+export const loadGame = (doc: unknown): LoadedGame => {
+  if (typeof doc !== "object" || doc === null) {
+    throw new Error("not a saved game");
+  }
+  const data = doc as Partial<SavedGame>;
+  if (data.format !== SAVE_FORMAT) {
+    throw new Error("not a saved game");
+  }
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1 || data.version > SAVE_FORMAT_VERSION) {
+    throw new Error(`unsupported save version ${data.version}`);
+  }
+  if (!GRID_TYPES.includes(data.gridType as GridType)) {
+    throw new Error("invalid grid type");
+  }
+  if (typeof data.angelPower !== "number" || !Number.isInteger(data.angelPower) || data.angelPower < 1 || data.angelPower > 10) {
+    throw new Error("invalid angel power");
+  }
+  if (!ANGEL_TYPES.includes(data.angelType as AngelType)) {
+    throw new Error("invalid angel type");
+  }
+  if (!isStringArray(data.moves)) {
+    throw new Error("invalid move list");
+  }
+  let annotations: Annotations;
+  if (data.version >= 6) {
+    annotations = parseAnnotations(data.layers, data.notes);
+  } else {
+    const highlights = data.highlights ?? [];
+    if (!isCoordKeyArray(highlights)) throw new Error("invalid highlights");
+    annotations = legacyAnnotations(highlights);
+  }
+
+  const moves = data.moves.map(text => {
+    const move = parseMoveNotation(text);
+    if (!move) throw new Error(`invalid move "${text}"`);
+    return move;
+  });
+  const winRule: AngelWinRule = data.version >= 2 ? parseWinRule(data.winRule) : { type: "none" };
+  const metric = data.version >= 3 ? parseMetric(data.metric) : DEFAULT_METRIC;
+  const turnRules = data.version >= 4 ? parseTurnRules(data.turnRules) : DEFAULT_TURN_RULES;
+  const settings: GameSettings = {
+    gridType: data.gridType as GridType,
+    angelPower: data.angelPower,
+    angelType: data.angelType as AngelType,
+    winRule,
+    metric,
+    turnRules,
+  };
+  const setup = data.version >= 5 ? parseSetup(data.setup) : DEFAULT_SETUP;
+  const positions = replayMoves(moves, settings, setup);
+
+  if (data.eatenSquares !== undefined) {
+    const eaten = positions[positions.length - 1].eatenSquares;
+    if (!isStringArray(data.eatenSquares) ||
+      data.eatenSquares.length !== eaten.size ||
+      !data.eatenSquares.every(key => eaten.has(key))) {
+      throw new Error("eaten squares do not match the move history");
+    }
+  }
+
+  const cursor = typeof data.cursor === "number" && Number.isInteger(data.cursor)
+    ? Math.max(0, Math.min(moves.length, data.cursor))
+    : moves.length;
+
+  return { moves, positions, annotations, cursor };
+};
+
+// Compact URL form: fields separated by "~"
+//   version ~ grid (s|h|t) ~ power ~ angel type ~ win rule ~ metric ~ turn rules ~ setup ~ moves ~ layers ~ notes [~ cursor]
+// The win rule is n (none) or s/d/e followed by its value, and is absent in
+// version 1 codes. The metric is c, m or e, or l followed by "a,b" for a
+// leaper, and is absent before version 3. The turn rules are "angel moves,
+// devil eats, devil every, eat shape (s|p|b)", and are absent before
+// version 4. The setup is a/d (first to move), the angel's "q,r", then ":"
+// and the eaten squares if there are any; it is absent before version 5.
+// Moves are concatenated as a/d followed by "q,r". Layers are separated by
+// "|", each "name:color:visible (1|0):squares" with the squares as "q,r"
+// separated by ";"; notes are "q,r:text" separated by "|". Names and notes
+// are URI-encoded. Before version 6 the layers field holds plain highlights
+// and there are no notes. The cursor is omitted when it points at the last
+// move.
+const GRID_CODES: Record<GridType, string> = {
+  "square": "s",
+  "hex": "h",
+  "triangle": "t",
+};
+
+const WIN_RULE_CODES: Record<AngelWinRule["type"], string> = {
+  "none": "n",
+  "survive": "s",
+  "distance": "d",
+  "escape": "e",
+};
+
+const ANGEL_TYPE_CODES: Record<AngelType, string> = {
+  "regular": "r",
+  "nice": "n",
+  "very-nice": "vn",
+  "fool": "f",
+  "out-and-out-fool": "of",
+};
+
+const METRIC_CODES: Record<MoveMetric["type"], string> = {
+  "chebyshev": "c",
+  "manhattan": "m",
+  "euclidean": "e",
+  "leaper": "l",
+};
+
+const EAT_SHAPE_CODES: Record<EatShape, string> = {
+  "single": "s",
+  "plus": "p",
+  "block": "b",
+};
+
+const encodeMetric = (metric: MoveMetric) =>
+  metric.type === "leaper" ? `l${metric.a},${metric.b}` : METRIC_CODES[metric.type];
+
+const decodeMetric = (code: string): MoveMetric => {
+  const leaper = /^l(\d+),(\d+)$/.exec(code);
+  if (leaper) return { type: "leaper", a: Number(leaper[1]), b: Number(leaper[2]) };
+  const type = (Object.keys(METRIC_CODES) as MoveMetric["type"][]).find(type => METRIC_CODES[type] === code);
+  if (!type || type === "leaper") throw new Error("invalid game code");
+  return { type };
+};
+
+const encodeTurnRules = (rules: TurnRules) =>
+  [rules.angelMoves, rules.devilEats, rules.devilEvery, EAT_SHAPE_CODES[rules.eatShape]].join(",");
+
+const decodeTurnRules = (code: string): TurnRules => {
+  const match = /^(\d+),(\d+),(\d+),([a-z])$/.exec(code);
+  const eatShape = EAT_SHAPES.find(shape => EAT_SHAPE_CODES[shape] === match?.[4]);
+  if (!match || !eatShape) throw new Error("invalid game code");
+  return { angelMoves: Number(match[1]), devilEats: Number(match[2]), devilEvery: Number(match[3]), eatShape };
+};
+
+const encodeSetup = (setup: GameSetup) =>
+  `${setup.firstTurn === "angel" ? "a" : "d"}${coordKey(setup.angelPos)}` +
+  (setup.eatenSquares.length > 0 ? `:${setup.eatenSquares.join(";")}` : "");
+
+const decodeSetup = (code: string): GameSetup => {
+  const match = /^([ad])(-?\d+),(-?\d+)(?::(.*))?$/.exec(code);
+  if (!match) throw new Error("invalid game code");
+  return {
+    angelPos: { q: Number(match[2]), r: Number(match[3]) },
+    eatenSquares: match[4] ? match[4].split(";") : [],
+    firstTurn: match[1] === "a" ? "angel" : "devil",
+  };
+};
+
+// URI encoding, plus "~" which encodeURIComponent leaves alone
+const encodeText = (text: string) => encodeURIComponent(text).replace(/~/g, "%7E");
+
+const decodeText = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    throw new Error("invalid game code");
+  }
+};
+
+const encodeLayers = (layers: SavedLayer[]) =>
+  layers
+    .map(layer => [encodeText(layer.name), layer.color.slice(1), layer.visible ? "1" : "0", layer.squares.join(";")].join(":"))
+    .join("|");
+
+const decodeLayers = (code: string): SavedLayer[] =>
+  code === ""
+    ? []
+    : code.split("|").map(text => {
+      const match = /^([^:]*):([0-9a-fA-F]{6}):([01]):(.*)$/.exec(text);
+      if (!match) throw new Error("invalid game code");
+      return {
+        name: decodeText(match[1]),
+        color: `#${match[2]}`,
+        visible: match[3] === "1",
+        squares: match[4] === "" ? [] : match[4].split(";"),
+      };
+    });
+
+const encodeNotes = (notes: Record<string, string>) =>
+  Object.entries(notes).map(([key, text]) => `${key}:${encodeText(text)}`).join("|");
+
+const decodeNotes = (code: string): Record<string, string> =>
+  Object.fromEntries(
+    code === ""
+      ? []
+      : code.split("|").map(text => {
+        const match = /^(-?\d+,-?\d+):(.*)$/.exec(text);
+        if (!match) throw new Error("invalid game code");
+        return [match[1], decodeText(match[2])];
+      })
+  );
+
+export const encodeGame = (game: SavedGame): string => {
+  const moves = game.moves
+    .map(text => parseMoveNotation(text))
+    .filter((move): move is Move => move !== null)
+    .map(move => `${move.player === "angel" ? "a" : "d"}${coordKey(move.coord)}`)
+    .join("");
+  const fields = [
+    String(game.version),
+    GRID_CODES[game.gridType],
+    String(game.angelPower),
+    ANGEL_TYPE_CODES[game.angelType],
+    game.winRule.type === "none" ? "n" : `${WIN_RULE_CODES[game.winRule.type]}${winRuleValue(game.winRule)}`,
+    encodeMetric(game.metric),
+    encodeTurnRules(game.turnRules),
+    encodeSetup(game.setup),
+    moves,
+    encodeLayers(game.layers),
+    encodeNotes(game.notes),
+  ];
+  if (game.cursor !== game.moves.length) fields.push(String(game.cursor));
+  return fields.join("~");
+};
+
+// Inverse of encodeGame. The result still has to go through loadGame.
+export const decodeGame = (code: string): SavedGame => {
+  const fields = code.split("~");
+  const version = Number(fields[0]);
+  // Fill in the fields older codes don't have
+  if (version === 1) fields.splice(4, 0, "n");
+  if (version <= 2) fields.splice(5, 0, "c");
+  if (version <= 3) fields.splice(6, 0, encodeTurnRules(DEFAULT_TURN_RULES));
+  if (version <= 4) fields.splice(7, 0, encodeSetup(DEFAULT_SETUP));
+  if (version <= 5 && fields.length >= 10) {
+    const highlights = fields[9] === "" ? [] : fields[9].split(";");
+    fields.splice(9, 1, encodeLayers(saveLayers(legacyAnnotations(highlights))), "");
+  }
+  if (fields.length < 11) throw new Error("invalid game code");
+  const [, grid, power, typeCode, ruleCode, metricCode, rulesCode, setupCode, moveText, layerText, noteText, cursorText] = fields;
+
+  const gridType = GRID_TYPES.find(type => GRID_CODES[type] === grid);
+  if (!gridType) throw new Error("invalid game code");
+
+  const ruleType = (Object.keys(WIN_RULE_CODES) as AngelWinRule["type"][])
+    .find(type => WIN_RULE_CODES[type] === ruleCode.charAt(0));
+  if (!ruleType) throw new Error("invalid game code");
+
+  const angelType = (Object.keys(ANGEL_TYPE_CODES) as AngelType[])
+    .find(type => ANGEL_TYPE_CODES[type] === typeCode);
+  if (!angelType) throw new Error("invalid game code");
+
+  if (!/^([ad]-?\d+,-?\d+)*$/.test(moveText)) throw new Error("invalid game code");
+  const moves = [...moveText.matchAll(/([ad])(-?\d+),(-?\d+)/g)]
+    .map(match => `${match[1] === "a" ? "A" : "D"}(${match[2]},${match[3]})`);
+
+  return {
+    format: SAVE_FORMAT,
+    // Decoded codes always carry every field, so they load as the current version
+    version: version >= 1 && version <= SAVE_FORMAT_VERSION ? SAVE_FORMAT_VERSION : version,
+    gridType,
+    angelPower: Number(power),
+    angelType,
+    winRule: makeWinRule(ruleType, Number(ruleCode.slice(1))),
+    metric: decodeMetric(metricCode),
+    turnRules: decodeTurnRules(rulesCode),
+    setup: decodeSetup(setupCode),
+    moves,
+    layers: decodeLayers(layerText),
+    notes: decodeNotes(noteText),
+    cursor: cursorText === undefined ? moves.length : Number(cursorText),
+  };
+};
@@ -0,0 +1,205 @@
+import { ANGEL_TYPES, AngelType, GameResult, GameState, Turn, gameResult } from "./engine";
+import { GRID_TYPES, GridType, coordKey, isCoordKey } from "./geometry";
+
+// Statistics over finished games, kept in the browser's local storage.
+// Positions are absolute board coordinates; most games start at the origin,
+// so heat maps line up across games.
+
+export type Controller = "human" | "computer" | "remote"; // remote: the other player's window
+
+export interface GameRecord {
+  id: string;
+  finishedAt: number; // ms since the epoch
+  gridType: GridType;
+  angelPower: number;
+  angelType: AngelType;
+  players: Record<Turn, Controller>;
+  result: GameResult;
+  trappedAt: string | null; // coord key where a trapped angel stood
+  eats: string[]; // coord keys the devil ate, setup squares excluded
+}
+
+const STORAGE_KEY = "angel-devil:games";
+const STORAGE_VERSION = 1;
+// Oldest games are dropped beyond this
+export const MAX_RECORDS = 500;
+
+export const recordGame = (
+  id: string,
+  start: GameState,
+  end: GameState,
+  players: Record<Turn, Controller>
+): GameRecord | null => {
+  const result = gameResult(end);
+  if (!result) return null;
+  const { gridType, angelPower, angelType } = end.settings;
+  return {
+    id,
+    finishedAt: Date.now(),
+    gridType,
+    angelPower,
+    angelType,
+    players,
+    result,
+    trappedAt: result.reason === "trapped" ? coordKey(end.angelPos) : null,
+    eats: [...end.eatenSquares].filter(key => !start.eatenSquares.has(key)),
+  };
+};
+
+// Add a record, replacing an earlier one for the same game (a finish that
+// was undone and played differently)
+export const addRecord = (records: readonly GameRecord[], record: GameRecord): GameRecord[] =>
+  [...records.filter(r => r.id !== record.id), record].slice(-MAX_RECORDS);
+
+const CONTROLLERS: Controller[] = ["human", "computer", "remote"];
+
+// Who wins for each way a game can end
+const RESULT_WINNERS: Record<GameResult["reason"], Turn> = {
+  "trapped": "devil",
+  "survived": "angel",
+  "distance": "angel",
+  "escaped": "angel",
+};
+
+const isResult = (value: unknown): value is GameResult => {
+  if (typeof value !== "object" || value === null) return false;
+  const result = value as Partial<GameResult>;
+  return typeof result.reason === "string" &&
+    Object.hasOwn(RESULT_WINNERS, result.reason) &&
+    result.winner === RESULT_WINNERS[result.reason] &&
+    typeof result.turns === "number" &&
+    typeof result.squaresEaten === "number";
+};
+
+const isRecord = (value: unknown): value is GameRecord => {
+  if (typeof value !== "object" || value === null) return false;
+  const r = value as Partial<GameRecord>;
+  return typeof r.id === "string" &&
+    typeof r.finishedAt === "number" &&
+    GRID_TYPES.includes(r.gridType as GridType) &&
+    typeof r.angelPower === "number" &&
+    ANGEL_TYPES.includes(r.angelType as AngelType) &&
+    typeof r.players === "object" && r.players !== null &&
+    CONTROLLERS.includes(r.players.angel) && CONTROLLERS.includes(r.players.devil) &&
+    isResult(r.result) &&
+    (r.trappedAt === null || isCoordKey(r.trappedAt)) &&
+    Array.isArray(r.eats) && r.eats.every(isCoordKey);
+};
+
+// Stored records; malformed entries and unknown versions are ignored
+export const loadRecords = (): GameRecord[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (data?.version !== STORAGE_VERSION || !Array.isArray(data.games)) return [];
+    return data.games.filter(isRecord);
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecords = (records: readonly GameRecord[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, games: records }));
+  } catch {
+    // Storage full or disabled; the statistics just won't persist
+  }
+};
+
+// Which games to include, by who played each side
+export type PlayerFilter = "all" | Controller;
+
+export const filterRecords = (
+  records: readonly GameRecord[],
+  angel: PlayerFilter,
+  devil: PlayerFilter
+): GameRecord[] =>
+  records.filter(r => (angel === "all" || r.players.angel === angel) && (devil === "all" || r.players.devil === devil));
+
+// Cells counted over games of one grid type
+export type HeatMapKind = "trapped" | "eaten";
+
+export const heatMap = (records: readonly GameRecord[], gridType: GridType, kind: HeatMapKind): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    if (record.gridType !== gridType) continue;
+    const keys = kind === "trapped" ? (record.trappedAt ? [record.trappedAt] : []) : record.eats;
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Games grouped by grid, angel type and power
+export interface GameGroup {
+  key: string;
+  gridType: GridType;
+  angelType: AngelType;
+  angelPower: number;
+  records: GameRecord[];
+}
+
+export const groupRecords = (records: readonly GameRecord[]): GameGroup[] => {
+  const groups = new Map<string, GameGroup>();
+  for (const record of records) {
+    const { gridType, angelType, angelPower } = record;
+    const key = `${gridType}/${angelType}/${angelPower}`;
+    const group = groups.get(key) ?? { key, gridType, angelType, angelPower, records: [] };
+    group.records.push(record);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) =>
+    GRID_TYPES.indexOf(a.gridType) - GRID_TYPES.indexOf(b.gridType) ||
+    ANGEL_TYPES.indexOf(a.angelType) - ANGEL_TYPES.indexOf(b.angelType) ||
+    a.angelPower - b.angelPower
+  );
+};
+
+export interface LengthSummary {
+  games: number;
+  angelWins: number;
+  mean: number;
+  median: number;
+  max: number;
+  histogram: number[]; // games per bin of binWidth turns, from 0
+  binWidth: number;
+}
+
+export const HISTOGRAM_BINS = 10;
+
+export const lengthSummary = (records: readonly GameRecord[]): LengthSummary => {
+  const lengths = records.map(r => r.result.turns).sort((a, b) => a - b);
+  const max = lengths.length > 0 ? lengths[lengths.length - 1] : 0;
+  const binWidth = Math.max(1, Math.ceil((max + 1) / HISTOGRAM_BINS));
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, () => 0);
+  for (const length of lengths) histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(length / binWidth))]++;
+  const middle = Math.floor(lengths.length / 2);
+  return {
+    games: lengths.length,
+    angelWins: records.filter(r => r.result.winner === "angel").length,
+    mean: lengths.length > 0 ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0,
+    median: lengths.length === 0 ? 0 : lengths.length % 2 === 1 ? lengths[middle] : (lengths[middle - 1] + lengths[middle]) / 2,
+    max,
+    histogram,
+    binWidth,
+  };
+};
+
+// Kaplan-Meier estimate of the chance an angel is still free after each
+// number of turns. Games the angel won end its record early without a
+// trap, so they count as censored rather than as survivors forever.
+export const survivalCurve = (records: readonly GameRecord[]): { turns: number; surviving: number }[] => {
+  const trapsAt = new Map<number, number>();
+  for (const r of records) {
+    if (r.result.reason === "trapped") trapsAt.set(r.result.turns, (trapsAt.get(r.result.turns) ?? 0) + 1);
+  }
+  const curve = [{ turns: 0, surviving: 1 }];
+  let surviving = 1;
+  for (const turns of [...trapsAt.keys()].sort((a, b) => a - b)) {
+    const atRisk = records.filter(r => r.result.turns >= turns).length;
+    surviving *= 1 - (trapsAt.get(turns) ?? 0) / atRisk;
+    curve.push({ turns, surviving });
+  }
+  // Carry the curve on to the longest game
+  const longest = Math.max(0, ...records.map(r => r.result.turns));
+  if (longest > curve[curve.length - 1].turns) curve.push({ turns: longest, surviving });
+  return curve;
+};
@@ -0,0 +1,192 @@
+import { AIStrategy, AI_STRATEGIES, chooseAngelMove } from "./angelAI";
+import { chooseDevilMove } from "./devilAI";
+import { RunnerTrail, extendRunnerTrail, isRunnerStrategy, runnerSupported, runnerView } from "./runner";
+import {
+  ANGEL_TYPES,
+  AngelType,
+  DEFAULT_TURN_RULES,
+  GameResult,
+  GameSettings,
+  GameState,
+  applyMove,
+  createGame,
+  gameResult,
+  isLegalMove,
+} from "./engine";
+import { Coord, DEFAULT_METRIC, GridType, cellCenter, getRing, gridDistance, parseCoordKey } from "./geometry";
+import { Rng, createRng, hashSeed, randomItem } from "./random";
+import { DEFAULT_SEARCH_OPTIONS } from "./search";
+
+// Headless tournaments: every computer Angel strategy against a set of
+// scripted Devils, over many seeded games per combination of settings
+
+export type ScriptedDevil = "random" | "nearest" | "fixed-wall";
+
+export const SCRIPTED_DEVILS: ScriptedDevil[] = ["random", "nearest", "fixed-wall"];
+
+export const SCRIPTED_DEVIL_DESCRIPTIONS: Record<ScriptedDevil, string> = {
+  "random": "Eats a random square near the angel.",
+  "nearest": "Eats an uneaten square as close to the angel as possible.",
+  "fixed-wall": "Eats a ring around the origin in a fixed order, whatever the angel does, then eats next to the angel.",
+};
+
+export interface TournamentConfig {
+  angelStrategies: AIStrategy[];
+  devils: ScriptedDevil[];
+  gridTypes: GridType[];
+  powers: number[];
+  angelTypes: AngelType[];
+  gamesPerMatchup: number;
+  maxTurns: number; // games are capped here; an angel that lasts this long wins
+  wallRadius: number; // ring radius for the fixed wall-builder
+  searchDepth: number; // rounds searched by the lookahead angel
+  seed: number;
+}
+
+export const DEFAULT_TOURNAMENT: TournamentConfig = {
+  // The lookahead angel is much slower; tick it in when needed
+  angelStrategies: AI_STRATEGIES.filter(strategy => strategy !== "lookahead"),
+  devils: SCRIPTED_DEVILS,
+  gridTypes: ["square", "hex"],
+  powers: [1, 2],
+  angelTypes: ANGEL_TYPES,
+  gamesPerMatchup: 20,
+  maxTurns: 100,
+  wallRadius: 6,
+  searchDepth: 1,
+  seed: 1,
+};
+
+export interface Matchup {
+  angelStrategy: AIStrategy;
+  devil: ScriptedDevil;
+  settings: GameSettings;
+}
+
+export interface MatchupResult extends Matchup {
+  games: number;
+  angelWins: number;
+  meanTurns: number; // mean game length in angel moves
+  meanEatenWhenTrapped: number | null; // over the devil's wins; null if it never won
+}
+
+const isEdible = (coord: Coord, state: GameState) =>
+  isLegalMove(state, { player: "devil", coord });
+
+// Past the furthest eaten square from the angel every ring is free to eat,
+// so the search never needs to look further than one ring beyond it
+const searchRadius = (state: GameState): number => {
+  const distance = gridDistance(state.settings.gridType);
+  let extent = 0;
+  for (const key of state.eatenSquares) {
+    extent = Math.max(extent, distance(state.angelPos, parseCoordKey(key)));
+  }
+  return extent + 1;
+};
+
+const nearestEat = (state: GameState, rng: Rng): Coord | null => {
+  const maxRadius = searchRadius(state);
+  for (let radius = 1; radius <= maxRadius; radius++) {
+    const ring = getRing(state.angelPos, radius, state.settings.gridType).filter(c => isEdible(c, state));
+    if (ring.length > 0) return randomItem(ring, rng);
+  }
+  return null;
+};
+
+// The wall is walked counterclockwise from the positive x axis, so every
+// game builds it in the same order
+const wallOrder = (gridType: GridType, radius: number): Coord[] => {
+  const angle = (coord: Coord) => {
+    const { x, y } = cellCenter(coord, gridType);
+    const a = Math.atan2(-y, x);
+    return a < 0 ? a + 2 * Math.PI : a;
+  };
+  return getRing({ q: 0, r: 0 }, radius, gridType).sort((a, b) => angle(a) - angle(b));
+};
+
+const fixedWallEat = (state: GameState, wall: Coord[], rng: Rng): Coord | null =>
+  wall.find(c => isEdible(c, state)) ?? nearestEat(state, rng);
+
+const matchupKey = (matchup: Matchup) => {
+  const { gridType, angelPower, angelType } = matchup.settings;
+  return [matchup.angelStrategy, matchup.devil, gridType, angelPower, angelType].join("/");
+};
+
+// Every combination of strategy, devil and settings in the config
+export const tournamentMatchups = (config: TournamentConfig): Matchup[] =>
+  config.angelStrategies.flatMap(angelStrategy =>
+    config.devils.flatMap(devil =>
+      config.gridTypes.flatMap(gridType =>
+        config.powers.flatMap(angelPower =>
+          config.angelTypes.map(angelType => ({
+            angelStrategy,
+            devil,
+            settings: {
+              gridType,
+              angelPower,
+              angelType,
+              winRule: { type: "survive", turns: config.maxTurns },
+              metric: DEFAULT_METRIC,
+              turnRules: DEFAULT_TURN_RULES,
+            },
+          }))
+        )
+      )
+    )
+  );
+
+// Play one game to the end
+export const playGame = (matchup: Matchup, config: TournamentConfig, rng: Rng): GameResult => {
+  const wall = wallOrder(matchup.settings.gridType, config.wallRadius);
+  // Depth-limited only: a time budget would make results machine-dependent
+  const searchOptions = { ...DEFAULT_SEARCH_OPTIONS, maxDepth: config.searchDepth, timeBudgetMs: Infinity };
+  let state = createGame(matchup.settings);
+  let result = gameResult(state);
+  // Runner strategies carry their walk from move to move
+  const runnerStrategy = isRunnerStrategy(matchup.angelStrategy) && runnerSupported(matchup.angelStrategy, state)
+    ? matchup.angelStrategy
+    : null;
+  const history = [state];
+  let trail: RunnerTrail | null = null;
+
+  while (!result) {
+    if (state.currentTurn === "angel") {
+      if (runnerStrategy) trail = extendRunnerTrail(trail, runnerStrategy, history);
+      const runner = trail && runnerView(trail, history.length - 1);
+      const coord = chooseAngelMove(matchup.angelStrategy, state, rng, searchOptions, runner);
+      if (!coord) throw new Error("the angel has no move");
+      state = applyMove(state, { player: "angel", coord });
+    } else {
+      const coord = matchup.devil === "random"
+        ? chooseDevilMove("random", state, 0, rng)
+        : matchup.devil === "nearest"
+          ? nearestEat(state, rng)
+          : fixedWallEat(state, wall, rng);
+      if (!coord) throw new Error("the devil has no move");
+      state = applyMove(state, { player: "devil", coord });
+    }
+    history.push(state);
+    result = gameResult(state);
+  }
+  return result;
+};
+
+// Play all games of a matchup. Each matchup has its own seed, so its
+// results don't depend on which other matchups are in the tournament.
+export const runMatchup = (matchup: Matchup, config: TournamentConfig): MatchupResult => {
+  const rng = createRng(hashSeed(`${config.seed}:${matchupKey(matchup)}`));
+  const results = Array.from({ length: config.gamesPerMatchup }, () => playGame(matchup, config, rng));
+  const trapped = results.filter(result => result.winner === "devil");
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    ...matchup,
+    games: results.length,
+    angelWins: results.length - trapped.length,
+    meanTurns: results.length > 0 ? mean(results.map(result => result.turns)) : 0,
+    meanEatenWhenTrapped: trapped.length > 0 ? mean(trapped.map(result => result.squaresEaten)) : null,
+  };
+};
+
+export const runTournament = (config: TournamentConfig): MatchupResult[] =>
+  tournamentMatchups(config).map(matchup => runMatchup(matchup, config));
@@ -0,0 +1,273 @@
+import { Cell, Maze, MazeGenerator, MazeStep, randomMember, shuffle, wilsonsAlgorithm } from "./wilson"
+
+// Maze generators on the shared Maze/Cell model, all yielding the same step
+// events as Wilson's algorithm and ending with the number of steps taken
+
+export type MazeAlgorithm =
+    | "wilson"
+    | "aldous-broder"
+    | "kruskal"
+    | "prim"
+    | "backtracker"
+    | "hunt-and-kill"
+    | "eller"
+    | "binary-tree"
+
+export const MAZE_ALGORITHMS: MazeAlgorithm[] = [
+    "wilson", "aldous-broder", "kruskal", "prim", "backtracker", "hunt-and-kill", "eller", "binary-tree",
+]
+
+export const MAZE_ALGORITHM_LABELS: Record<MazeAlgorithm, string> = {
+    "wilson": "Wilson's",
+    "aldous-broder": "Aldous–Broder",
+    "kruskal": "Randomized Kruskal's",
+    "prim": "Randomized Prim's",
+    "backtracker": "Recursive Backtracker",
+    "hunt-and-kill": "Hunt-and-Kill",
+    "eller": "Eller's",
+    "binary-tree": "Binary Tree",
+}
+
+export const MAZE_ALGORITHM_DESCRIPTIONS: Record<MazeAlgorithm, string> = {
+    "wilson": "Loop-erased random walks from each unvisited cell until they hit the maze. Uniform over all mazes.",
+    "aldous-broder": "A random walk that carves into every cell it reaches for the first time. Uniform, but slow to finish.",
+    "kruskal": "Joins random walls' two sides whenever they are not yet connected. Many short dead ends.",
+    "prim": "Grows from one cell, adding a random frontier cell each step. Short, branchy passages.",
+    "backtracker": "Walks to unvisited neighbours and backs up along its stack at dead ends. Long, winding corridors.",
+    "hunt-and-kill": "Walks like the backtracker, but at a dead end scans the rows for a new place to start.",
+    "eller": "Builds the maze a row at a time, joining sets sideways and down. Ignores the torus wrap.",
+    "binary-tree": "Each cell opens north or west. Fast, with a strong diagonal bias; ignores the torus wrap.",
+}
+
+export function* aldousBroder(maze: Maze): Generator<MazeStep, void, undefined> {
+    const total = maze.width * maze.height
+    let current = randomMember(maze.cells.flat())
+    const visited = new Set<Cell>([current])
+    let stepsTaken = 0
+
+    while (visited.size < total) {
+        const next = randomMember(current.neighbors)
+        stepsTaken += 1
+        if (!visited.has(next)) {
+            current.carveEdge(next)
+            visited.add(next)
+            yield { type: "carve", from: current, to: next, current: next, highlighted: [] }
+        } else {
+            yield { type: "walk", current: next, highlighted: [] }
+        }
+        current = next
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+export function* kruskal(maze: Maze): Generator<MazeStep, void, undefined> {
+    // Every wall once; on a small torus two neighbours can be the same cell
+    const walls: [Cell, Cell][] = []
+    const seen = new Set<string>()
+    for (const cell of maze.cells.flat()) {
+        for (const neighbor of cell.neighbors) {
+            const key = [`${cell.x},${cell.y}`, `${neighbor.x},${neighbor.y}`].sort().join("|")
+            if (neighbor === cell || seen.has(key)) continue
+            seen.add(key)
+            walls.push([cell, neighbor])
+        }
+    }
+
+    // Union-find over the cells
+    const parent = new Map<Cell, Cell>()
+    const find = (cell: Cell): Cell => {
+        const up = parent.get(cell)
+        if (!up) return cell
+        const root = find(up)
+        parent.set(cell, root)
+        return root
+    }
+
+    let stepsTaken = 0
+    for (const [a, b] of shuffle(walls)) {
+        stepsTaken += 1
+        const rootA = find(a)
+        const rootB = find(b)
+        if (rootA === rootB) continue
+        parent.set(rootA, rootB)
+        a.carveEdge(b)
+        yield { type: "carve", from: a, to: b, current: b, highlighted: [a, b] }
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+export function* prim(maze: Maze): Generator<MazeStep, void, undefined> {
+    const start = randomMember(maze.cells.flat())
+    const inMaze = new Set<Cell>([start])
+    // The frontier is an array so a random cell is picked in constant time,
+    // with each cell's index so it is added once and removed by moving the
+    // last cell into its place
+    const frontier: Cell[] = []
+    const frontierIndex = new Map<Cell, number>()
+    const addToFrontier = (cell: Cell) => {
+        if (inMaze.has(cell) || frontierIndex.has(cell)) return
+        frontierIndex.set(cell, frontier.length)
+        frontier.push(cell)
+    }
+    start.neighbors.forEach(addToFrontier)
+    let stepsTaken = 0
+
+    while (frontier.length > 0) {
+        const index = Math.floor(Math.random() * frontier.length)
+        const cell = frontier[index]
+        const last = frontier.pop()!
+        if (last !== cell) {
+            frontier[index] = last
+            frontierIndex.set(last, index)
+        }
+        frontierIndex.delete(cell)
+
+        const joined = randomMember(cell.neighbors.filter((nb) => inMaze.has(nb)))
+        cell.carveEdge(joined)
+        inMaze.add(cell)
+        cell.neighbors.forEach(addToFrontier)
+        stepsTaken += 1
+        // The frontier itself rather than a copy, which would cost as much
+        // as the set did
+        yield { type: "carve", from: joined, to: cell, current: cell, highlighted: frontier }
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+// Depth-first search with an explicit stack, so every step can be shown
+export function* recursiveBacktracker(maze: Maze): Generator<MazeStep, void, undefined> {
+    const start = randomMember(maze.cells.flat())
+    const visited = new Set<Cell>([start])
+    const stack = [start]
+    let stepsTaken = 0
+
+    while (stack.length > 0) {
+        const current = stack[stack.length - 1]
+        const unvisited = current.neighbors.filter((nb) => !visited.has(nb))
+        stepsTaken += 1
+        if (unvisited.length === 0) {
+            stack.pop()
+            yield { type: "walk", current: stack[stack.length - 1] ?? null, highlighted: [...stack] }
+        } else {
+            const next = randomMember(unvisited)
+            current.carveEdge(next)
+            visited.add(next)
+            stack.push(next)
+            yield { type: "carve", from: current, to: next, current: next, highlighted: [...stack] }
+        }
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+export function* huntAndKill(maze: Maze): Generator<MazeStep, void, undefined> {
+    let current: Cell | null = randomMember(maze.cells.flat())
+    const visited = new Set<Cell>([current])
+    let stepsTaken = 0
+
+    while (current) {
+        const unvisited: Cell[] = current.neighbors.filter((nb) => !visited.has(nb))
+        if (unvisited.length > 0) {
+            // Kill: walk on to a random unvisited neighbour
+            const next = randomMember(unvisited)
+            current.carveEdge(next)
+            visited.add(next)
+            stepsTaken += 1
+            yield { type: "carve", from: current, to: next, current: next, highlighted: [] }
+            current = next
+            continue
+        }
+
+        // Hunt: the first unvisited cell, row by row, that touches the maze
+        current = null
+        for (const row of maze.cells) {
+            stepsTaken += 1
+            yield { type: "walk", current: null, highlighted: row }
+            const found = row.find((cell) => !visited.has(cell) && cell.neighbors.some((nb) => visited.has(nb)))
+            if (found) {
+                const joined = randomMember(found.neighbors.filter((nb) => visited.has(nb)))
+                found.carveEdge(joined)
+                visited.add(found)
+                yield { type: "carve", from: joined, to: found, current: found, highlighted: row }
+                current = found
+                break
+            }
+        }
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+// One row at a time, tracking which cells of the current row are already
+// connected. Only the grid's own edges are used, never the torus wrap.
+export function* eller(maze: Maze): Generator<MazeStep, void, undefined> {
+    const sets = new Map<Cell, number>()
+    let nextSet = 0
+    let stepsTaken = 0
+
+    for (let y = 0; y < maze.height; y++) {
+        const row = maze.cells[y]
+        const lastRow = y === maze.height - 1
+        row.forEach((cell) => {
+            if (!sets.has(cell)) sets.set(cell, nextSet++)
+        })
+
+        // Join neighbours in different sets at random; all of them on the last row
+        for (let x = 0; x < maze.width - 1; x++) {
+            const [a, b] = [row[x], row[x + 1]]
+            const setA = sets.get(a)!
+            const setB = sets.get(b)!
+            if (setA === setB || (!lastRow && Math.random() < 0.5)) continue
+            a.carveEdge(b)
+            row.forEach((cell) => {
+                if (sets.get(cell) === setB) sets.set(cell, setA)
+            })
+            stepsTaken += 1
+            yield { type: "carve", from: a, to: b, current: b, highlighted: row }
+        }
+        if (lastRow) break
+
+        // Every set carries on down at least once
+        const members = new Map<number, Cell[]>()
+        row.forEach((cell) => {
+            const set = sets.get(cell)!
+            members.set(set, [...(members.get(set) ?? []), cell])
+        })
+        for (const [set, cells] of members) {
+            const down = shuffle(cells).slice(0, 1 + Math.floor(Math.random() * cells.length))
+            for (const cell of down) {
+                const below = maze.cells[y + 1][cell.x]
+                cell.carveEdge(below)
+                sets.set(below, set)
+                stepsTaken += 1
+                yield { type: "carve", from: cell, to: below, current: below, highlighted: row }
+            }
+        }
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+// Every cell but the top-left one opens north or west, so it also ignores
+// the torus wrap
+export function* binaryTree(maze: Maze): Generator<MazeStep, void, undefined> {
+    let stepsTaken = 0
+    for (const cell of maze.cells.flat()) {
+        const options = [maze.getCell(cell.x, cell.y - 1), maze.getCell(cell.x - 1, cell.y)]
+            .filter((nb): nb is Cell => nb !== null)
+        if (options.length === 0) continue
+        const joined = randomMember(options)
+        cell.carveEdge(joined)
+        stepsTaken += 1
+        yield { type: "carve", from: cell, to: joined, current: cell, highlighted: [] }
+    }
+    yield { type: "done", steps: stepsTaken }
+}
+
+export const MAZE_GENERATORS: Record<MazeAlgorithm, MazeGenerator> = {
+    "wilson": wilsonsAlgorithm,
+    "aldous-broder": aldousBroder,
+    "kruskal": kruskal,
+    "prim": prim,
+    "backtracker": recursiveBacktracker,
+    "hunt-and-kill": huntAndKill,
+    "eller": eller,
+    "binary-tree": binaryTree,
+}
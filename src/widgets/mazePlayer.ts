@@ -0,0 +1,83 @@
+import { Maze, MazeGenerator, MazeStep, renderMaze } from "./wilson"
+
+// Runs a generator to the end without drawing or waiting, and returns the
+// number of steps it took
+export function generateMaze(maze: Maze, generator: MazeGenerator) {
+    for (const step of generator(maze)) {
+        if (step.type === "done") return step.steps
+    }
+    return 0
+}
+
+export function renderStep(maze: Maze, step: MazeStep, ctx: CanvasRenderingContext2D) {
+    if (step.type === "done") {
+        renderMaze(maze, null, [], ctx)
+        return
+    }
+    renderMaze(maze, step.current, step.highlighted, ctx)
+    step.target?.fillSelf(ctx, ctx.canvas.width / maze.width, "white")
+}
+
+// Plays a generator's steps back in time, handing each one to onStep. It
+// can be paused, stepped by hand or fast-forwarded to the end; it stops by
+// itself after the done step.
+export class MazePlayer {
+    stepTime: number
+    playing = false
+    finished = false
+    private steps: Iterator<MazeStep, void, undefined>
+    private onStep: (step: MazeStep) => void
+    private timer: ReturnType<typeof setTimeout> | null = null
+
+    constructor(steps: Iterator<MazeStep, void, undefined>, onStep: (step: MazeStep) => void, stepTime: number) {
+        this.steps = steps
+        this.onStep = onStep
+        this.stepTime = stepTime
+    }
+
+    play() {
+        if (this.playing || this.finished) return
+        this.playing = true
+        this.schedule()
+    }
+
+    pause() {
+        this.playing = false
+        if (this.timer !== null) clearTimeout(this.timer)
+        this.timer = null
+    }
+
+    // The next step, or null once the generator is done
+    step(): MazeStep | null {
+        const next = this.advance()
+        if (next) this.onStep(next)
+        return next
+    }
+
+    // Runs the rest of the steps at once; only the last one is handed on
+    fastForward() {
+        let last: MazeStep | null = null
+        for (let next = this.advance(); next; next = this.advance()) {
+            last = next
+        }
+        if (last) this.onStep(last)
+    }
+
+    private advance(): MazeStep | null {
+        if (this.finished) return null
+        const result = this.steps.next()
+        if (result.done || result.value.type === "done") {
+            this.finished = true
+            this.pause()
+        }
+        return result.done ? null : result.value
+    }
+
+    private schedule() {
+        this.timer = setTimeout(() => {
+            this.timer = null
+            this.step()
+            if (this.playing) this.schedule()
+        }, this.stepTime)
+    }
+}
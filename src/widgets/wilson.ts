@@ -1,5 +1,12 @@
-export const shuffle = <T>(arr: T[]): T[] =>
-  arr.sort(() => Math.random() - 0.5);
+// A uniformly shuffled copy (Fisher–Yates)
+export const shuffle = <T>(arr: readonly T[]): T[] => {
+  const shuffled = [...arr];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
 
 export const randomMember = <T>(group: Set<T> | T[]): T => {
   if (
@@ -181,43 +188,6 @@ export class Maze {
   }
 }
 
-export function solveMazeWithRandomDPS(maze: Maze) {
-  const visited = new Set<string>();
-  async function visit(last: Cell, x: number, y: number) {
-    const coord = `${x},${y}`;
-    if (visited.has(coord)) {
-      return;
-    }
-    visited.add(`${x},${y}`);
-
-    const current = maze.getCell(x, y);
-    if (!current) {
-      return
-    }
-    
-    current.carveEdge(last);
-
-    const neighbors: Cell[] = shuffle(current.uncarvedEdges());
-    for (const neighbor of neighbors) {
-      visit(current, neighbor.x, neighbor.y);
-    }
-  }
-
-  const rndCell = randomMember(maze.cells.flat());
-  visit(rndCell, rndCell.x, rndCell.y);
-}
-
-export function timeoutWithCancel(time: number, signal: AbortSignal) {
-  return new Promise((resolve, reject) => {
-    const timer = setTimeout(resolve, time);
-
-    signal.addEventListener("abort", () => {
-      clearTimeout(timer);
-      reject(new Error("aborted"));
-    });
-  });
-}
-
 const MAZE_STROKE = "#000"
 const MAZE_CONNECTED_FILL="#fff"
 const MAZE_CURR_PATH="#888"
@@ -254,7 +224,28 @@ export function renderMaze(
 
 }
 
-export async function wilsonsAlgorithm(maze: Maze, ctx: CanvasRenderingContext2D, cancelSignal: AbortSignal, stepTime: number, watchWander:boolean = true){
+// A generator's progress, one event per step. Each carries what to draw
+// for it: the cell the generator is at and its working set (the walk, the
+// frontier, the stack or the row being scanned).
+interface StepView {
+    current: Cell | null
+    highlighted: Cell[]
+    target?: Cell // shown as part of the maze although nothing joins it yet
+}
+
+export type MazeStep =
+    | (StepView & { type: "walk" })
+    | (StepView & { type: "loop-erased"; erased: Cell[] })
+    | (StepView & { type: "carve"; from: Cell; to: Cell })
+    | (StepView & { type: "path-committed"; path: Cell[] })
+    | { type: "done"; steps: number }
+
+// Carves a spanning tree into an empty maze, one event at a time. Nothing
+// is drawn and nothing waits, so it runs the same in a test, a worker or
+// behind a player.
+export type MazeGenerator = (maze: Maze) => Generator<MazeStep, void, undefined>
+
+export function* wilsonsAlgorithm(maze: Maze): Generator<MazeStep, void, undefined> {
     const unvisited = new Set<Cell>(maze.cells.flat())
     const visited = new Set<Cell>()
 
@@ -272,25 +263,24 @@ export async function wilsonsAlgorithm(maze: Maze, ctx: CanvasRenderingContext2D
         while (!visited.has(current)){
             stepsTaken += 1
             path.push(current)
-            let next = randomMember(current.uncarvedEdges())
+            const next = randomMember(current.uncarvedEdges())
+            // until the first path joins it, the maze is just the start cell
+            const target = visited.size === 1 ? startCell : undefined
 
-            // erase loop if there is one 
+            // erase loop if there is one; next goes back on the path when
+            // the walk carries on from it
             const loopIdx = path.indexOf(next)
             if (loopIdx !== -1){
-                path = path.slice(0, loopIdx+1)
+                const erased = path.slice(loopIdx + 1)
+                path = path.slice(0, loopIdx)
+                yield { type: "loop-erased", current: next, highlighted: [...path], erased, target }
             } else {
-                path.push(next)
-            }
-            if (watchWander){renderMaze(maze, next, path, ctx)
-            if (visited.size === 1){
-                const cellsize = ctx.canvas.width/maze.width
-                startCell.fillSelf(ctx, cellsize, "white")
-                
+                yield { type: "walk", current: next, highlighted: [...path], target }
             }
-            await timeoutWithCancel(stepTime, cancelSignal)}
 
             current = next 
         }
+        path.push(current)
 
         for (let i = 0; i < path.length - 1; i++) {
             const cell = path[i];
@@ -299,10 +289,7 @@ export async function wilsonsAlgorithm(maze: Maze, ctx: CanvasRenderingContext2D
             visited.add(cell);
             unvisited.delete(cell);
         }
+        yield { type: "path-committed", current: null, highlighted: [], path }
     }
-    renderMaze(maze, null, [], ctx);
-    await timeoutWithCancel(5000, cancelSignal)
-    return stepsTaken
-
-
-}
\ No newline at end of file
+    yield { type: "done", steps: stepsTaken }
+}